@@ -0,0 +1,769 @@
+/**
+ * OOXML Redaction
+ *
+ * Applies the add-in's detectors and marker strategies to a .docx
+ * package directly: every paragraph of the body, headers, footers,
+ * notes, comments and text boxes is scanned, matches are replaced at
+ * run level (optionally as w:del/w:ins revisions), and the
+ * classification banner is written into the header part.
+ */
+
+import { AllowEntry, createAllowFilter } from '../src/allowList';
+import { detect, Match } from '../src/detection';
+import { Detector } from '../src/detectors';
+import {
+  buildMarker,
+  getMarkerFormat,
+  MarkerFormat,
+  MarkerStyle,
+  maskedPreview,
+  resolveMarkerStyle,
+} from '../src/markers';
+import { assignPseudonyms, PseudonymEntry, pseudonymKey, PseudonymOptions } from '../src/pseudonyms';
+import { createTokenIssuer, RecoveryKey, TokenIssuer } from '../src/recovery';
+import { BANNER_TAG, BannerOptions, BannerReport, bannerText, CLASSIFICATION_LEVELS } from '../src/banner';
+import { RedactionRecord } from '../src/redaction';
+import { StoryKind } from '../src/stories';
+import {
+  childElements,
+  element,
+  findAll,
+  getAttribute,
+  isElement,
+  parseXml,
+  serializeXml,
+  setAttribute,
+  setTextContent,
+  textContent,
+  XmlElement,
+  XmlNode,
+} from './xml';
+import { ZipEntries } from './zip';
+
+export interface DocxRedactionOptions {
+  detectors: Detector[];
+  /** Marker style per detector id, plus the default under '*' */
+  styles: Record<string, MarkerStyle>;
+  pseudonyms: PseudonymOptions;
+  /** Minimum confidence, from 0 to 1, for a match to be redacted */
+  threshold: number;
+  /** Known-safe values to leave alone, as in the add-in's allow-list */
+  allowList: AllowEntry[];
+  /** Banner to write into the header/footer parts; null leaves them alone */
+  banner: BannerOptions | null;
+  /** Record redactions and the banner as tracked revisions */
+  trackChanges: boolean;
+  /** Author of tracked revisions */
+  author: string;
+}
+
+export interface DocxRedactionResult {
+  counts: Record<string, number>;
+  locationCounts: Partial<Record<StoryKind, number>>;
+  totalRedacted: number;
+  records: RedactionRecord[];
+  /** Hyperlink addresses and field codes that held sensitive values */
+  linksRedacted: number;
+  /** Matches left alone because the allow-list covers them */
+  skipped: number;
+  banner?: BannerReport;
+  recovery?: RecoveryKey;
+  pseudonyms?: PseudonymEntry[];
+}
+
+// Parts holding document text, and the story kind each one represents
+const STORY_PARTS: [RegExp, StoryKind][] = [
+  [/^word\/document\.xml$/, 'body'],
+  [/^word\/header\d*\.xml$/, 'header'],
+  [/^word\/footer\d*\.xml$/, 'footer'],
+  [/^word\/footnotes\.xml$/, 'footnote'],
+  [/^word\/endnotes\.xml$/, 'endnote'],
+  [/^word\/comments\.xml$/, 'comment'],
+];
+
+// Run content that counts as text, and the text it stands for
+const RUN_TEXT: Record<string, ((node: XmlElement) => string) | undefined> = {
+  'w:t': textContent,
+  'w:tab': () => '\t',
+  'w:br': () => '\n',
+  'w:cr': () => '\n',
+  'w:noBreakHyphen': () => '-',
+};
+
+// Paragraph content whose text is not part of the paragraph: its
+// properties, deleted text, and nested paragraphs of text boxes
+const SKIPPED_CONTENT = new Set(['w:pPr', 'w:del', 'w:moveFrom', 'w:p', 'w:txbxContent']);
+
+// Order of run properties required by the schema (CT_RPr)
+const RUN_PROPERTY_ORDER = [
+  'w:rStyle',
+  'w:rFonts',
+  'w:b',
+  'w:bCs',
+  'w:i',
+  'w:iCs',
+  'w:caps',
+  'w:smallCaps',
+  'w:strike',
+  'w:dstrike',
+  'w:outline',
+  'w:shadow',
+  'w:emboss',
+  'w:imprint',
+  'w:noProof',
+  'w:snapToGrid',
+  'w:vanish',
+  'w:webHidden',
+  'w:color',
+  'w:spacing',
+  'w:w',
+  'w:kern',
+  'w:position',
+  'w:sz',
+  'w:szCs',
+  'w:highlight',
+  'w:u',
+  'w:effect',
+  'w:bdr',
+  'w:shd',
+  'w:fitText',
+  'w:vertAlign',
+  'w:rtl',
+  'w:cs',
+  'w:em',
+  'w:lang',
+  'w:eastAsianLayout',
+  'w:specVanish',
+  'w:oMath',
+  'w:rPrChange',
+];
+
+const NAMESPACES = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+};
+
+const PART_TYPES = {
+  header: {
+    relationship: `${NAMESPACES.r}/header`,
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml',
+    root: 'w:hdr',
+  },
+  footer: {
+    relationship: `${NAMESPACES.r}/footer`,
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml',
+    root: 'w:ftr',
+  },
+};
+
+// Banner font size in half-points (14 pt, as in the add-in)
+const BANNER_SIZE = '28';
+
+interface StoryPart {
+  path: string;
+  kind: StoryKind;
+  root: XmlElement;
+}
+
+interface Paragraph {
+  node: XmlElement;
+  location: StoryKind;
+  /** False for the fallback copy of a text box, which would count twice */
+  counted: boolean;
+}
+
+/**
+ * A piece of run content with its position in the paragraph text
+ */
+interface TextPiece {
+  run: XmlElement;
+  parent: XmlElement;
+  node: XmlElement;
+  start: number;
+  end: number;
+}
+
+/**
+ * Matches found in one paragraph during the scan
+ */
+interface ParagraphMatches {
+  part: StoryPart;
+  index: number;
+  paragraph: Paragraph;
+  matches: Match[];
+}
+
+/**
+ * Hands out the attributes of tracked revisions
+ */
+interface RevisionIssuer {
+  next(): Record<string, string>;
+}
+
+/**
+ * Redacts a .docx package in place
+ */
+export async function redactDocx(entries: ZipEntries, options: DocxRedactionOptions): Promise<DocxRedactionResult> {
+  const result: DocxRedactionResult = {
+    counts: {},
+    locationCounts: {},
+    totalRedacted: 0,
+    records: [],
+    linksRedacted: 0,
+    skipped: 0,
+  };
+  const parts = loadStoryParts(entries);
+  const revisions = createRevisionIssuer(entries, options.author);
+  const tagOf = (detectorId: string) =>
+    options.detectors.find((detector) => detector.id === detectorId)?.tag ?? 'REDACTED';
+
+  // There is no document or user list outside Word; the entries given
+  // on the command line stand in for both
+  const allowFilter = () => createAllowFilter({ user: [], document: options.allowList }, []);
+
+  // Scan everything first so pseudonyms are numbered in document order
+  const found: ParagraphMatches[] = [];
+  const allow = allowFilter();
+  for (const part of parts) {
+    collectParagraphs(part.root, part.kind).forEach((paragraph, index) => {
+      const matches = detect(paragraphText(paragraph.node), options.detectors, options.threshold, [], allow);
+      if (matches.length > 0) found.push({ part, index, paragraph, matches });
+    });
+  }
+  result.skipped = allow.skipped.length;
+
+  const pseudonyms = await assignPseudonyms(
+    found
+      .flatMap(({ matches }) => matches)
+      .filter((match) => resolveMarkerStyle(options.styles, match.detector) === 'pseudonym')
+      .map((match) => ({ detector: match.detector, tag: tagOf(match.detector), value: match.text })),
+    options.pseudonyms
+  );
+  const tokens = createTokenIssuer();
+
+  for (const { part, index, paragraph, matches } of found) {
+    // Right to left, so earlier offsets stay valid
+    for (const match of [...matches].sort((a, b) => b.offset - a.offset)) {
+      const marker = markerFor(match, tagOf(match.detector), options.styles, tokens, pseudonyms);
+      replaceText(
+        paragraph.node,
+        match.offset,
+        match.offset + match.text.length,
+        marker,
+        options.trackChanges ? revisions : null
+      );
+      if (!paragraph.counted) continue;
+
+      const detector = options.detectors.find((active) => active.id === match.detector);
+      result.counts[match.detector] = (result.counts[match.detector] ?? 0) + 1;
+      result.locationCounts[paragraph.location] = (result.locationCounts[paragraph.location] ?? 0) + 1;
+      result.records.push({
+        detector: match.detector,
+        label: detector?.label ?? match.detector,
+        rule: detector?.description ?? match.detector,
+        location: paragraph.location,
+        story: part.path,
+        paragraph: index,
+        preview: maskedPreview(match.text),
+        style: marker.style,
+        replacement: marker.text,
+        confidence: match.confidence,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Records were made right to left within each paragraph
+  result.records.sort(
+    (a, b) =>
+      0 ||
+      parts.findIndex((part) => part.path === a.story) - parts.findIndex((part) => part.path === b.story) ||
+      a.paragraph - b.paragraph
+  );
+  result.totalRedacted = result.records.length;
+
+  // A redacted mailto: link or HYPERLINK field would still carry the value
+  const replaceMatches = (text: string) =>
+    detect(text, options.detectors, options.threshold, [], allowFilter())
+      .sort((a, b) => b.offset - a.offset)
+      .reduce(
+        (redacted, match) =>
+          redacted.substring(0, match.offset) +
+          markerFor(match, tagOf(match.detector), options.styles, tokens, pseudonyms).text +
+          redacted.substring(match.offset + match.text.length),
+        text
+      );
+
+  for (const part of parts) {
+    for (const instruction of findAll(part.root, 'w:instrText')) {
+      const text = textContent(instruction);
+      const redacted = replaceMatches(text);
+      if (redacted === text) continue;
+      setTextContent(instruction, redacted);
+      result.linksRedacted++;
+    }
+    result.linksRedacted += redactLinkTargets(entries, part.path, replaceMatches);
+    entries.set(part.path, Buffer.from(serializeXml(part.root), 'utf8'));
+  }
+
+  if (options.banner) {
+    result.banner = applyBanner(entries, options.banner, options.trackChanges ? revisions : null);
+  }
+
+  const issued = tokens.entries();
+  if (issued.length > 0) result.recovery = { createdAt: new Date().toISOString(), entries: issued };
+  if (pseudonyms.size > 0) result.pseudonyms = [...pseudonyms.values()];
+
+  return result;
+}
+
+/**
+ * Rewrites the external targets (mailto: and web links) in a part's
+ * relationships. Returns the number of targets changed.
+ */
+function redactLinkTargets(entries: ZipEntries, partPath: string, replace: (text: string) => string): number {
+  const slash = partPath.lastIndexOf('/');
+  const relsPath = `${partPath.substring(0, slash)}/_rels/${partPath.substring(slash + 1)}.rels`;
+  const data = entries.get(relsPath);
+  if (!data) return 0;
+
+  const rels = parseXml(data.toString('utf8'));
+  let changed = 0;
+  for (const relationship of findAll(rels, 'Relationship')) {
+    const target = getAttribute(relationship, 'Target');
+    if (!target || getAttribute(relationship, 'TargetMode') !== 'External') continue;
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(target);
+    } catch {
+      decoded = target;
+    }
+    const redacted = replace(decoded);
+    if (redacted === decoded) continue;
+    setAttribute(relationship, 'Target', encodeURI(redacted));
+    changed++;
+  }
+  if (changed > 0) entries.set(relsPath, Buffer.from(serializeXml(rels), 'utf8'));
+  return changed;
+}
+
+function loadStoryParts(entries: ZipEntries): StoryPart[] {
+  const parts: StoryPart[] = [];
+  for (const [path, data] of entries) {
+    const kind = STORY_PARTS.find(([pattern]) => pattern.test(path))?.[1];
+    if (kind) parts.push({ path, kind, root: parseXml(data.toString('utf8')) });
+  }
+  // Body first, then the other stories in the order the add-in lists them
+  const order = STORY_PARTS.map(([, kind]) => kind);
+  return parts.sort(
+    (a, b) => order.indexOf(a.kind) - order.indexOf(b.kind) || a.path.localeCompare(b.path, 'en', { numeric: true })
+  );
+}
+
+/**
+ * Every paragraph of a part, including those nested in text boxes
+ */
+function collectParagraphs(root: XmlElement, kind: StoryKind): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  const walk = (node: XmlElement, inTextBox: boolean, inFallback: boolean) => {
+    for (const child of childElements(node)) {
+      const textBox = inTextBox || child.name === 'w:txbxContent';
+      const fallback = inFallback || child.name === 'mc:Fallback';
+      if (child.name === 'w:p') {
+        paragraphs.push({ node: child, location: textBox && kind === 'body' ? 'textBox' : kind, counted: !fallback });
+      }
+      walk(child, textBox, fallback);
+    }
+  };
+  walk(root, false, false);
+  return paragraphs;
+}
+
+/**
+ * The text pieces of a paragraph's own runs, in order
+ */
+function collectPieces(paragraph: XmlElement): TextPiece[] {
+  const pieces: TextPiece[] = [];
+  let position = 0;
+  const walk = (container: XmlElement) => {
+    for (const child of childElements(container)) {
+      if (SKIPPED_CONTENT.has(child.name)) continue;
+      if (child.name !== 'w:r') {
+        walk(child);
+        continue;
+      }
+      for (const node of childElements(child)) {
+        const text = RUN_TEXT[node.name]?.(node) ?? '';
+        if (text.length === 0) continue;
+        pieces.push({ run: child, parent: container, node, start: position, end: position + text.length });
+        position += text.length;
+      }
+    }
+  };
+  walk(paragraph);
+  return pieces;
+}
+
+function paragraphText(paragraph: XmlElement): string {
+  return collectPieces(paragraph)
+    .map((piece) => RUN_TEXT[piece.node.name]?.(piece.node) ?? '')
+    .join('');
+}
+
+function markerFor(
+  match: Match,
+  tag: string,
+  styles: Record<string, MarkerStyle>,
+  tokens: TokenIssuer,
+  pseudonyms: Map<string, PseudonymEntry>
+): { text: string; format: MarkerFormat; style: MarkerStyle } {
+  const style = resolveMarkerStyle(styles, match.detector);
+  let text: string;
+  if (style === 'token') {
+    text = tokens.tokenFor(tag, match.text, match.detector);
+  } else if (style === 'pseudonym') {
+    text =
+      pseudonyms.get(pseudonymKey(match.detector, tag, match.text))?.pseudonym ?? buildMarker(style, match.text, tag);
+  } else {
+    text = buildMarker(style, match.text, tag);
+  }
+  return { text, format: getMarkerFormat(style), style };
+}
+
+/**
+ * Replaces the paragraph text between two offsets with a marker. Runs
+ * are split so the range covers whole runs; the first keeps its
+ * formatting for the marker. With revisions, the covered runs become a
+ * tracked deletion followed by a tracked insertion of the marker.
+ */
+function replaceText(
+  paragraph: XmlElement,
+  start: number,
+  end: number,
+  marker: { text: string; format: MarkerFormat },
+  revisions: RevisionIssuer | null
+): void {
+  splitRunsAt(paragraph, end);
+  splitRunsAt(paragraph, start);
+
+  const covered = [
+    ...new Set(
+      collectPieces(paragraph)
+        .filter((piece) => piece.start >= start && piece.end <= end)
+        .map((piece) => piece.run)
+    ),
+  ];
+  if (covered.length === 0) return;
+  const parentOf = (run: XmlElement) => collectPieces(paragraph).find((piece) => piece.run === run)?.parent;
+
+  const markerRun = element('w:r', {}, [cloneRunProperties(covered[0]), textElement(marker.text)]);
+  applyFormat(markerRun, marker.format);
+
+  if (revisions) {
+    const parents = covered.map(parentOf);
+    covered.forEach((run, i) => {
+      const parent = parents[i];
+      if (!parent) return;
+      for (const node of childElements(run, 'w:t')) node.name = 'w:delText';
+      parent.children[parent.children.indexOf(run)] = element('w:del', revisions.next(), [run]);
+    });
+    const lastParent = parents[parents.length - 1];
+    const lastDeletion = lastParent?.children.findIndex(
+      (node) => isElement(node) && node.children.includes(covered[covered.length - 1])
+    );
+    if (lastParent && lastDeletion !== undefined) {
+      lastParent.children.splice(lastDeletion + 1, 0, element('w:ins', revisions.next(), [markerRun]));
+    }
+    return;
+  }
+
+  covered.forEach((run, i) => {
+    const parent = parentOf(run);
+    if (!parent) return;
+    if (i === 0) parent.children.splice(parent.children.indexOf(run), 0, markerRun);
+    // Drop the text, keeping anything else the run holds (field codes,
+    // drawings); a run left with nothing but its properties goes
+    run.children = run.children.filter((node) => !isElement(node) || !RUN_TEXT[node.name]);
+    if (childElements(run).every((node) => node.name === 'w:rPr')) {
+      parent.children.splice(parent.children.indexOf(run), 1);
+    }
+  });
+}
+
+/**
+ * Splits runs so that a run boundary falls at the given offset
+ */
+function splitRunsAt(paragraph: XmlElement, offset: number): void {
+  const pieces = collectPieces(paragraph);
+  const inside = pieces.find((piece) => piece.start < offset && offset < piece.end);
+  if (inside) {
+    // Only w:t pieces are longer than one character
+    const text = textContent(inside.node);
+    const right = textElement(text.substring(offset - inside.start));
+    setTextContent(inside.node, text.substring(0, offset - inside.start));
+    preserveSpace(inside.node);
+    inside.run.children.splice(inside.run.children.indexOf(inside.node) + 1, 0, right);
+    splitRunAfter(inside.run, inside.parent, inside.node);
+    return;
+  }
+
+  const before = pieces.find((piece) => piece.end === offset);
+  if (before) splitRunAfter(before.run, before.parent, before.node);
+}
+
+/**
+ * Moves the run content after `node` into a new run with the same
+ * properties, inserted right after the original
+ */
+function splitRunAfter(run: XmlElement, parent: XmlElement, node: XmlElement): void {
+  const index = run.children.indexOf(node);
+  const moved = run.children.slice(index + 1);
+  if (!moved.some((child) => isElement(child) && child.name !== 'w:rPr')) return;
+
+  run.children = run.children.slice(0, index + 1);
+  const next: XmlElement = {
+    name: 'w:r',
+    attrs: run.attrs,
+    children: [cloneRunProperties(run), ...moved],
+    selfClosing: false,
+  };
+  parent.children.splice(parent.children.indexOf(run) + 1, 0, next);
+}
+
+function cloneRunProperties(run: XmlElement): XmlNode {
+  const properties = childElements(run, 'w:rPr')[0];
+  return properties ? childElements(parseXml(serializeXml(properties)))[0] : element('w:rPr');
+}
+
+function textElement(text: string): XmlElement {
+  const node = element('w:t', { 'xml:space': 'preserve' });
+  setTextContent(node, text);
+  return node;
+}
+
+function preserveSpace(node: XmlElement): void {
+  if (getAttribute(node, 'xml:space') === null) node.attrs += ' xml:space="preserve"';
+}
+
+/**
+ * Applies marker formatting to a run as character shading and colour
+ */
+function applyFormat(run: XmlElement, format: MarkerFormat): void {
+  const properties = childElements(run, 'w:rPr')[0];
+  if (!properties) return;
+  if (format.fontColor) {
+    setRunProperty(properties, element('w:color', { 'w:val': format.fontColor.replace('#', '') }));
+  }
+  if (format.highlightColor) {
+    setRunProperty(
+      properties,
+      element('w:shd', { 'w:val': 'clear', 'w:color': 'auto', 'w:fill': format.highlightColor.replace('#', '') })
+    );
+  }
+}
+
+/**
+ * Sets a run property, replacing any existing one and keeping the
+ * schema's element order
+ */
+function setRunProperty(properties: XmlElement, property: XmlElement): void {
+  properties.children = properties.children.filter((node) => !isElement(node) || node.name !== property.name);
+  const rank = RUN_PROPERTY_ORDER.indexOf(property.name);
+  const index = properties.children.findIndex(
+    (node) => isElement(node) && RUN_PROPERTY_ORDER.indexOf(node.name) > rank
+  );
+  properties.children.splice(index === -1 ? properties.children.length : index, 0, property);
+  properties.selfClosing = false;
+}
+
+/**
+ * Revision ids continue after the highest id used in the package, as
+ * annotation ids must be unique across the document
+ */
+function createRevisionIssuer(entries: ZipEntries, author: string): RevisionIssuer {
+  let id = 0;
+  for (const [path, data] of entries) {
+    if (!path.endsWith('.xml')) continue;
+    for (const match of data.toString('utf8').matchAll(/\sw:id="(\d+)"/g)) {
+      id = Math.max(id, Number(match[1]));
+    }
+  }
+  const date = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return { next: () => ({ 'w:id': String(++id), 'w:author': author, 'w:date': date }) };
+}
+
+/**
+ * Writes the classification banner into the default header and/or
+ * footer of the first section (or of every section), creating the part
+ * when the section has none. As in the add-in, the banner sits in a
+ * tagged content control: an existing one is updated, and banners in
+ * parts no longer targeted are removed.
+ */
+function applyBanner(entries: ZipEntries, options: BannerOptions, revisions: RevisionIssuer | null): BannerReport {
+  const report: BannerReport = { level: options.level, inserted: 0, updated: 0, removed: 0 };
+  const documentRoot = parseXml(readPart(entries, 'word/document.xml'));
+  const relsPath = 'word/_rels/document.xml.rels';
+  const rels = parseXml(readPart(entries, relsPath));
+  const relationships = findAll(rels, 'Relationships')[0];
+
+  const sections = findAll(documentRoot, 'w:sectPr');
+  const targets = options.allSections ? sections : sections.slice(0, 1);
+  const kinds = (['header', 'footer'] as const).filter(
+    (kind) => options.placement === kind || options.placement === 'both'
+  );
+  const targeted = new Set<string>();
+
+  for (const section of targets) {
+    for (const kind of kinds) {
+      const reference = childElements(section, `w:${kind}Reference`).find(
+        (ref) => getAttribute(ref, 'w:type') === 'default'
+      );
+      const relationship =
+        reference &&
+        childElements(relationships, 'Relationship').find(
+          (rel) => getAttribute(rel, 'Id') === getAttribute(reference, 'r:id')
+        );
+      const target = relationship && getAttribute(relationship, 'Target');
+      const path = target
+        ? target.startsWith('/')
+          ? target.substring(1)
+          : `word/${target}`
+        : createHeaderFooterPart(entries, relationships, section, kind);
+      if (targeted.has(path)) continue;
+      targeted.add(path);
+
+      const root = parseXml(readPart(entries, path));
+      const container = findAll(root, PART_TYPES[kind].root)[0];
+      if (!container) continue;
+      const banner = bannerBlock(options, revisions);
+      const [existing, ...duplicates] = bannerControls(container);
+      if (existing) {
+        const content = childElements(existing, 'w:sdtContent')[0];
+        if (content) content.children = [banner];
+        duplicates.forEach((duplicate) => removeNode(container, duplicate));
+        report.updated++;
+      } else {
+        const wrapped = element('w:sdt', {}, [
+          element('w:sdtPr', {}, [
+            element('w:alias', { 'w:val': 'Classification banner' }),
+            element('w:tag', { 'w:val': BANNER_TAG }),
+          ]),
+          element('w:sdtContent', {}, [banner]),
+        ]);
+        if (kind === 'header') container.children.unshift(wrapped);
+        else container.children.push(wrapped);
+        report.inserted++;
+      }
+      entries.set(path, Buffer.from(serializeXml(root), 'utf8'));
+    }
+  }
+
+  // Remove banners from headers and footers no longer targeted
+  for (const path of [...entries.keys()].filter((name) => /^word\/(header|footer)\d*\.xml$/.test(name))) {
+    if (targeted.has(path)) continue;
+    const root = parseXml(readPart(entries, path));
+    const controls = bannerControls(root);
+    if (controls.length === 0) continue;
+    controls.forEach((control) => removeNode(root, control));
+    report.removed += controls.length;
+    entries.set(path, Buffer.from(serializeXml(root), 'utf8'));
+  }
+
+  entries.set('word/document.xml', Buffer.from(serializeXml(documentRoot), 'utf8'));
+  entries.set(relsPath, Buffer.from(serializeXml(rels), 'utf8'));
+  return report;
+}
+
+/**
+ * Adds an empty header or footer part, its relationship, its content
+ * type and the section's reference to it. Returns the part's path.
+ */
+function createHeaderFooterPart(
+  entries: ZipEntries,
+  relationships: XmlElement,
+  section: XmlElement,
+  kind: 'header' | 'footer'
+): string {
+  let number = 1;
+  while (entries.has(`word/${kind}${number}.xml`)) number++;
+  const name = `${kind}${number}.xml`;
+
+  const ids = new Set(childElements(relationships, 'Relationship').map((rel) => getAttribute(rel, 'Id')));
+  let idNumber = 1;
+  while (ids.has(`rId${idNumber}`)) idNumber++;
+  const id = `rId${idNumber}`;
+
+  const type = PART_TYPES[kind];
+  entries.set(
+    `word/${name}`,
+    Buffer.from(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n' +
+        `<${type.root} xmlns:w="${NAMESPACES.w}" xmlns:r="${NAMESPACES.r}"></${type.root}>`,
+      'utf8'
+    )
+  );
+  relationships.children.push(element('Relationship', { Id: id, Type: type.relationship, Target: name }));
+  relationships.selfClosing = false;
+
+  const contentTypes = parseXml(readPart(entries, '[Content_Types].xml'));
+  const types = findAll(contentTypes, 'Types')[0];
+  types.children.push(element('Override', { PartName: `/word/${name}`, ContentType: type.contentType }));
+  types.selfClosing = false;
+  entries.set('[Content_Types].xml', Buffer.from(serializeXml(contentTypes), 'utf8'));
+
+  // Header and footer references come first in a section's properties
+  const references = section.children.findIndex(
+    (node) => isElement(node) && !/^w:(header|footer)Reference$/.test(node.name)
+  );
+  section.children.splice(
+    references === -1 ? section.children.length : references,
+    0,
+    element(`w:${kind}Reference`, { 'w:type': 'default', 'r:id': id })
+  );
+  section.selfClosing = false;
+
+  return `word/${name}`;
+}
+
+/**
+ * The banner paragraph: centred, bold, in the level's colour
+ */
+function bannerBlock(options: BannerOptions, revisions: RevisionIssuer | null): XmlElement {
+  const color = (options.color || CLASSIFICATION_LEVELS[options.level].color).replace('#', '');
+  const run = element('w:r', {}, [
+    element('w:rPr', {}, [
+      element('w:b'),
+      element('w:color', { 'w:val': color }),
+      element('w:sz', { 'w:val': BANNER_SIZE }),
+    ]),
+    textElement(bannerText(options)),
+  ]);
+  const properties = element('w:pPr', {}, [
+    element('w:jc', { 'w:val': 'center' }),
+    ...(revisions ? [element('w:rPr', {}, [element('w:ins', revisions.next())])] : []),
+  ]);
+  return element('w:p', {}, [properties, revisions ? element('w:ins', revisions.next(), [run]) : run]);
+}
+
+function bannerControls(root: XmlElement): XmlElement[] {
+  return findAll(root, 'w:sdt').filter((sdt) =>
+    childElements(sdt, 'w:sdtPr').some((properties) =>
+      childElements(properties, 'w:tag').some((tag) => getAttribute(tag, 'w:val') === BANNER_TAG)
+    )
+  );
+}
+
+function removeNode(root: XmlElement, target: XmlElement): void {
+  const index = root.children.indexOf(target);
+  if (index !== -1) {
+    root.children.splice(index, 1);
+    return;
+  }
+  childElements(root).forEach((child) => removeNode(child, target));
+}
+
+function readPart(entries: ZipEntries, path: string): string {
+  const data = entries.get(path);
+  if (!data) throw new Error(`The package has no ${path} part.`);
+  return data.toString('utf8');
+}
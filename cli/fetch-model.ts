@@ -0,0 +1,56 @@
+/**
+ * Entity Model Download
+ *
+ * Puts the files the on-device entity model needs under public/, so the
+ * add-in serves them itself and works offline: the quantized
+ * bert-base-NER model from the Hugging Face Hub, and the ONNX runtime's
+ * WebAssembly files from node_modules. Files already present are kept.
+ *
+ * Usage: npm run fetch:model
+ */
+
+import { copyFile, mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+
+const MODEL = 'Xenova/bert-base-NER';
+const MODEL_FILES = ['config.json', 'tokenizer.json', 'tokenizer_config.json', 'onnx/model_quantized.onnx'];
+const HUB_URL = 'https://huggingface.co';
+
+const MODEL_DIR = resolve('public/models', MODEL);
+const RUNTIME_SOURCE = resolve('node_modules/onnxruntime-web/dist');
+const RUNTIME_DIR = resolve('public/ort');
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function main(): Promise<void> {
+  for (const file of MODEL_FILES) {
+    const target = join(MODEL_DIR, file);
+    if (await exists(target)) continue;
+
+    process.stdout.write(`Downloading ${MODEL}/${file}\n`);
+    const response = await fetch(`${HUB_URL}/${MODEL}/resolve/main/${file}`);
+    if (!response.ok) throw new Error(`Could not download ${file}: ${response.status} ${response.statusText}`);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, Buffer.from(await response.arrayBuffer()));
+  }
+
+  await mkdir(RUNTIME_DIR, { recursive: true });
+  const runtimeFiles = (await readdir(RUNTIME_SOURCE)).filter((name) => /^ort-wasm.*\.(?:wasm|mjs)$/.test(name));
+  for (const name of runtimeFiles) {
+    await copyFile(join(RUNTIME_SOURCE, name), join(RUNTIME_DIR, name));
+  }
+
+  process.stdout.write(`Model in ${MODEL_DIR}, runtime in ${RUNTIME_DIR}\n`);
+}
+
+main().catch((error: unknown) => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
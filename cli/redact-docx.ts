@@ -0,0 +1,341 @@
+/**
+ * Batch Redaction CLI
+ *
+ * Redacts .docx files without opening Word, using the add-in's
+ * detectors and marker strategies. Writes a redacted copy of each file
+ * and a summary report into the output directory.
+ *
+ * The named-entity model only runs in the task pane, so names, places
+ * and organisations are not found here, and the allow-list comes from
+ * --allow rather than from the user's or the document's saved lists.
+ *
+ * Usage: npm run redact:docx -- <file or directory>... [options]
+ */
+
+import { readdir, readFile, mkdir, stat, writeFile } from 'node:fs/promises';
+import { basename, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { ALLOW_KINDS, AllowEntry, AllowKind, validateAllowEntry } from '../src/allowList';
+import { DETECTORS } from '../src/detectors';
+import { DEFAULT_THRESHOLD } from '../src/detection';
+import { DEFAULT_REGIONS, isInRegions, Region, REGIONS } from '../src/locales';
+import { CustomRule, ruleToDetector, validateRule } from '../src/rules';
+import { DEFAULT_STYLE_KEY, MARKER_STRATEGIES, MarkerStyle } from '../src/markers';
+import { PSEUDONYM_MODES, PseudonymMode } from '../src/pseudonyms';
+import { encryptRecoveryKey } from '../src/recovery';
+import { CLASSIFICATION_LEVELS, ClassificationLevel, DEFAULT_BANNER_OPTIONS, BannerPlacement } from '../src/banner';
+import { BUILT_IN_PROFILES, isInProfile, parseProfile, PolicyProfile } from '../src/profiles';
+import { DocxRedactionOptions, DocxRedactionResult, redactDocx } from './docx';
+import { readZip, writeZip } from './zip';
+
+const USAGE = `Usage: npm run redact:docx -- <file or directory>... [options]
+
+Options:
+  -o, --out <dir>             Output directory (default: ./redacted)
+  -p, --profile <name|file>   Policy profile: ${BUILT_IN_PROFILES.map((profile) => profile.id).join(', ')}, or an exported profile file;
+                              sets the detectors, styles, banner and tracking that other flags don't
+  -s, --style <style>         Marker style for every detector: ${MARKER_STRATEGIES.map((strategy) => strategy.id).join(', ')}
+      --styles <file.json>    Marker style per detector id, e.g. {"email": "label", "*": "redacted"}
+      --regions <list>        Regions whose phone formats and national IDs to detect: ${Object.keys(REGIONS).join(', ')} (default: ${DEFAULT_REGIONS.join(',')})
+      --rules <file.json>     Custom rules (terms and regular expressions) to apply as well
+      --allow <file.json>     Allow-list of values to leave alone, e.g. [{"kind": "domain", "value": "ourcompany.com"}]
+      --threshold <0-100>     Minimum confidence, in percent, for a match to be redacted (default: ${DEFAULT_THRESHOLD * 100})
+      --track                 Record redactions and the banner as tracked changes (w:ins/w:del)
+      --author <name>         Author of tracked changes (default: Redaction)
+      --level <level>         Banner classification: ${Object.keys(CLASSIFICATION_LEVELS).join(', ')} (default: ${DEFAULT_BANNER_OPTIONS.level})
+      --banner-text <text>    Banner text instead of the level's default
+      --placement <where>     Banner placement: header, footer or both (default: ${DEFAULT_BANNER_OPTIONS.placement})
+      --all-sections          Put the banner in every section
+      --no-banner             Leave headers and footers alone
+      --pseudonyms <mode>     Pseudonym mode: ${Object.keys(PSEUDONYM_MODES).join(', ')}
+      --pseudonym-key <key>   Key for hmac pseudonyms
+      --passphrase <text>     Passphrase for the recovery keys of the token style
+  -h, --help                  Show this help
+
+Names, places and organisations are not detected: the named-entity model
+only runs in the task pane. Allow-lists saved in Word do not apply either;
+pass them with --allow.
+`;
+
+// Name of the summary report written next to the redacted copies
+const SUMMARY_FILE = 'redaction-summary.json';
+
+interface FileSummary {
+  file: string;
+  output?: string;
+  recoveryKey?: string;
+  result?: DocxRedactionResult;
+  error?: string;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'redacted' },
+      profile: { type: 'string', short: 'p' },
+      style: { type: 'string', short: 's' },
+      styles: { type: 'string' },
+      regions: { type: 'string', default: DEFAULT_REGIONS.join(',') },
+      rules: { type: 'string' },
+      allow: { type: 'string' },
+      threshold: { type: 'string', default: String(DEFAULT_THRESHOLD * 100) },
+      track: { type: 'boolean', default: false },
+      author: { type: 'string', default: 'Redaction' },
+      // Banner flags have no defaults here so a profile's banner applies
+      level: { type: 'string' },
+      'banner-text': { type: 'string' },
+      placement: { type: 'string' },
+      'all-sections': { type: 'boolean', default: false },
+      'no-banner': { type: 'boolean', default: false },
+      pseudonyms: { type: 'string', default: 'number' },
+      'pseudonym-key': { type: 'string', default: '' },
+      passphrase: { type: 'string', default: '' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const profile = values.profile ? await loadProfile(values.profile) : null;
+  const options = await buildOptions(values, profile);
+  const usesTokens = Object.values(options.styles).includes('token');
+  if (usesTokens && values.passphrase.length < 8) {
+    throw new Error('The token style needs --passphrase of at least 8 characters to encrypt the recovery keys.');
+  }
+
+  const files = await findDocuments(positionals);
+  if (files.length === 0) throw new Error('No .docx files found.');
+  refuseNameCollisions(files);
+
+  const outDir = resolve(values.out);
+  await mkdir(outDir, { recursive: true });
+
+  const summaries: FileSummary[] = [];
+  for (const file of files) {
+    const summary: FileSummary = { file };
+    try {
+      const entries = readZip(await readFile(file));
+      const result = await redactDocx(entries, options);
+      summary.output = join(outDir, basename(file));
+      if (summary.output === file) throw new Error('The output directory must differ from the input directory.');
+      await writeFile(summary.output, writeZip(entries));
+
+      if (result.recovery) {
+        summary.recoveryKey = join(outDir, `${basename(file, extname(file))}.recovery-key.json`);
+        await writeFile(summary.recoveryKey, await encryptRecoveryKey(result.recovery, values.passphrase));
+      }
+      // The token and pseudonym mappings hold original values; they stay
+      // out of the plain-text summary
+      const { recovery: _recovery, pseudonyms: _pseudonyms, ...reported } = result;
+      summary.result = reported;
+      process.stdout.write(
+        `${basename(file)}: ${result.totalRedacted} redaction${result.totalRedacted !== 1 ? 's' : ''}\n`
+      );
+    } catch (error) {
+      summary.error = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`${basename(file)}: ${summary.error}\n`);
+    }
+    summaries.push(summary);
+  }
+
+  const summaryPath = join(outDir, SUMMARY_FILE);
+  await writeFile(
+    summaryPath,
+    JSON.stringify(
+      {
+        generatedAt: new Date().toISOString(),
+        profile: profile?.name,
+        trackChanges: options.trackChanges,
+        threshold: options.threshold,
+        banner: options.banner,
+        files: summaries,
+        totalRedacted: summaries.reduce((sum, summary) => sum + (summary.result?.totalRedacted ?? 0), 0),
+      },
+      null,
+      2
+    )
+  );
+  process.stdout.write(`Summary written to ${summaryPath}\n`);
+
+  return summaries.some((summary) => summary.error) ? 1 : 0;
+}
+
+/**
+ * Turns the command-line flags into redaction options, rejecting
+ * unknown styles, levels and modes up front
+ */
+async function buildOptions(
+  values: {
+    style?: string;
+    styles?: string;
+    regions: string;
+    rules?: string;
+    allow?: string;
+    threshold: string;
+    track: boolean;
+    author: string;
+    level?: string;
+    'banner-text'?: string;
+    placement?: string;
+    'all-sections': boolean;
+    'no-banner': boolean;
+    pseudonyms: string;
+    'pseudonym-key': string;
+  },
+  profile: PolicyProfile | null
+): Promise<DocxRedactionOptions> {
+  const styleIds = MARKER_STRATEGIES.map((strategy) => strategy.id as string);
+  const styles: Record<string, MarkerStyle> = values.styles
+    ? (JSON.parse(await readFile(values.styles, 'utf8')) as Record<string, MarkerStyle>)
+    : { ...profile?.markerStyles };
+  if (values.style) styles[DEFAULT_STYLE_KEY] = values.style as MarkerStyle;
+  for (const style of Object.values(styles)) {
+    if (!styleIds.includes(style)) throw new Error(`Unknown marker style "${style}".`);
+  }
+
+  const regions = values.regions
+    .split(',')
+    .map((region) => region.trim().toLowerCase())
+    .filter(Boolean);
+  for (const region of regions) {
+    if (!(region in REGIONS)) throw new Error(`Unknown region "${region}".`);
+  }
+  const detectors = DETECTORS.filter(
+    (detector) => isInRegions(detector, regions as Region[]) && isInProfile(detector, profile)
+  );
+  if (values.rules) {
+    for (const rule of JSON.parse(await readFile(values.rules, 'utf8')) as CustomRule[]) {
+      const problem = validateRule(rule);
+      if (problem) throw new Error(`Rule "${rule.label}": ${problem}`);
+      detectors.push(ruleToDetector(rule));
+    }
+  }
+
+  const allowList = values.allow ? await loadAllowList(values.allow) : [];
+
+  const banner = profile?.banner ?? DEFAULT_BANNER_OPTIONS;
+  const level = values.level ?? banner.level;
+  const placement = values.placement ?? banner.placement;
+  if (!(level in CLASSIFICATION_LEVELS)) throw new Error(`Unknown classification level "${level}".`);
+  if (!['header', 'footer', 'both'].includes(placement)) throw new Error(`Unknown placement "${placement}".`);
+  if (!(values.pseudonyms in PSEUDONYM_MODES)) throw new Error(`Unknown pseudonym mode "${values.pseudonyms}".`);
+  const threshold = Number(values.threshold);
+  if (values.threshold.trim() === '' || !(threshold >= 0 && threshold <= 100)) {
+    throw new Error(`The threshold must be a number from 0 to 100, not "${values.threshold}".`);
+  }
+
+  return {
+    detectors,
+    styles,
+    pseudonyms: { mode: values.pseudonyms as PseudonymMode, key: values['pseudonym-key'] },
+    threshold: threshold / 100,
+    allowList,
+    banner: values['no-banner']
+      ? null
+      : {
+          ...banner,
+          level: level as ClassificationLevel,
+          // A level given on the command line brings its own text and colour
+          text: values['banner-text'] ?? (values.level ? '' : banner.text),
+          color: values.level ? '' : banner.color,
+          placement: placement as BannerPlacement,
+          allSections: values['all-sections'] || banner.allSections,
+        },
+    trackChanges: values.track || (profile !== null && profile.tracking.redactions !== 'clean'),
+    author: values.author,
+  };
+}
+
+/**
+ * A built-in profile by id or name, or an exported profile file
+ */
+async function loadProfile(value: string): Promise<PolicyProfile> {
+  const builtIn = BUILT_IN_PROFILES.find(
+    (profile) => profile.id === value.toLowerCase() || profile.name.toLowerCase() === value.toLowerCase()
+  );
+  if (builtIn) return builtIn;
+  try {
+    return parseProfile(await readFile(value, 'utf8'));
+  } catch (error) {
+    throw new Error(`Profile "${value}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * The entries of an allow-list file: an array of objects, each with a
+ * kind and a value, checked as the task pane checks what is typed
+ */
+async function loadAllowList(file: string): Promise<AllowEntry[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Allow-list "${file}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed)) throw new Error(`Allow-list "${file}" must hold an array of entries.`);
+
+  return parsed.map((item: unknown, index) => {
+    const { kind, value } = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    if (typeof value !== 'string' || typeof kind !== 'string' || !ALLOW_KINDS.includes(kind as AllowKind)) {
+      throw new Error(
+        `Allow-list "${file}", entry ${index + 1}: expected a "kind" of ${ALLOW_KINDS.join(', ')} and a "value" string.`
+      );
+    }
+    const entry: AllowEntry = { id: `cli-${index + 1}`, kind: kind as AllowKind, value };
+    const problem = validateAllowEntry(entry);
+    if (problem) throw new Error(`Allow-list entry "${value}": ${problem}`);
+    return entry;
+  });
+}
+
+/**
+ * The .docx files named, or found directly inside the directories named.
+ * Word's "~$" lock files are skipped.
+ */
+async function findDocuments(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths.map((name) => resolve(name))) {
+    if ((await stat(path)).isDirectory()) {
+      const names = (await readdir(path)).filter(
+        (name) => name.toLowerCase().endsWith('.docx') && !name.startsWith('~$')
+      );
+      files.push(...names.sort().map((name) => join(path, name)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Every copy is written flat into the output directory, so two inputs
+ * with the same name from different directories would overwrite each
+ * other. Names are compared ignoring case, as Windows and macOS do.
+ */
+function refuseNameCollisions(files: string[]): void {
+  const byName = new Map<string, string[]>();
+  for (const file of files) {
+    const name = basename(file).toLowerCase();
+    byName.set(name, [...(byName.get(name) ?? []), file]);
+  }
+  const collisions = [...byName.values()].filter((paths) => paths.length > 1);
+  if (collisions.length > 0) {
+    throw new Error(
+      `These files would overwrite each other in the output directory; rename them or redact them separately:\n${collisions
+        .map((paths) => `  ${paths.join('\n  ')}`)
+        .join('\n')}`
+    );
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error: unknown) => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  }
+);
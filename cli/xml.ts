@@ -0,0 +1,195 @@
+/**
+ * Lightweight XML Tree
+ *
+ * Just enough XML handling for OOXML parts: elements with their raw
+ * attribute text, and everything else (text, declarations, comments)
+ * kept verbatim so an unchanged part serializes back byte for byte.
+ */
+
+export interface XmlElement {
+  name: string;
+  /** Attribute text exactly as written, including leading whitespace */
+  attrs: string;
+  children: XmlNode[];
+  selfClosing: boolean;
+}
+
+/**
+ * An element, or raw markup/text kept in its escaped form
+ */
+export type XmlNode = XmlElement | string;
+
+export function isElement(node: XmlNode): node is XmlElement {
+  return typeof node !== 'string';
+}
+
+/**
+ * Parses a document into a synthetic root holding its top-level nodes
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#root', attrs: '', children: [], selfClosing: false };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < source.length) {
+    const open = source.indexOf('<', position);
+    if (open === -1) {
+      stack[stack.length - 1].children.push(source.substring(position));
+      break;
+    }
+    if (open > position) {
+      stack[stack.length - 1].children.push(source.substring(position, open));
+    }
+
+    const close = findTagEnd(source, open);
+    const tag = source.substring(open, close + 1);
+    const parent = stack[stack.length - 1];
+    position = close + 1;
+
+    if (tag.startsWith('<?') || tag.startsWith('<!')) {
+      parent.children.push(tag);
+    } else if (tag.startsWith('</')) {
+      if (stack.length === 1) throw new Error(`Unexpected closing tag ${tag}`);
+      stack.pop();
+    } else {
+      const selfClosing = tag.endsWith('/>');
+      const body = tag.substring(1, tag.length - (selfClosing ? 2 : 1));
+      const nameEnd = body.search(/[\s/]|$/);
+      const element: XmlElement = {
+        name: body.substring(0, nameEnd),
+        attrs: body.substring(nameEnd),
+        children: [],
+        selfClosing,
+      };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length !== 1) throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  return root;
+}
+
+/**
+ * Index of the ">" ending the markup starting at `open`, skipping quoted
+ * attribute values, comments and CDATA sections
+ */
+function findTagEnd(source: string, open: number): number {
+  const terminators: [string, string][] = [
+    ['<!--', '-->'],
+    ['<![CDATA[', ']]>'],
+    ['<?', '?>'],
+  ];
+  for (const [start, end] of terminators) {
+    if (source.startsWith(start, open)) {
+      const index = source.indexOf(end, open + start.length);
+      if (index === -1) throw new Error('Unterminated markup');
+      return index + end.length - 1;
+    }
+  }
+
+  let quote = '';
+  for (let i = open + 1; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  throw new Error('Unterminated tag');
+}
+
+export function serializeXml(node: XmlNode): string {
+  if (!isElement(node)) return node;
+  if (node.name === '#root') return node.children.map(serializeXml).join('');
+  if (node.selfClosing && node.children.length === 0) return `<${node.name}${node.attrs}/>`;
+  return `<${node.name}${node.attrs}>${node.children.map(serializeXml).join('')}</${node.name}>`;
+}
+
+/**
+ * Creates an element; attribute values are escaped
+ */
+export function element(name: string, attributes: Record<string, string> = {}, children: XmlNode[] = []): XmlElement {
+  const attrs = Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+  return { name, attrs, children, selfClosing: children.length === 0 };
+}
+
+export function getAttribute(node: XmlElement, name: string): string | null {
+  const match = new RegExp(`\\s${name.replace(/[.:]/g, '\\$&')}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(node.attrs);
+  return match ? unescapeXml(match[2] ?? match[3]) : null;
+}
+
+/**
+ * Sets an attribute, replacing its current value if it has one
+ */
+export function setAttribute(node: XmlElement, name: string, value: string): void {
+  const pattern = new RegExp(`(\\s${name.replace(/[.:]/g, '\\$&')}\\s*=\\s*)("[^"]*"|'[^']*')`);
+  const quoted = `"${escapeXml(value)}"`;
+  node.attrs = pattern.test(node.attrs)
+    ? node.attrs.replace(pattern, (_, prefix: string) => prefix + quoted)
+    : `${node.attrs} ${name}=${quoted}`;
+}
+
+/**
+ * Element children with the given name
+ */
+export function childElements(node: XmlElement, name?: string): XmlElement[] {
+  return node.children.filter((child): child is XmlElement => isElement(child) && (!name || child.name === name));
+}
+
+/**
+ * Every descendant element with the given name, in document order
+ */
+export function findAll(node: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of childElements(node)) {
+    if (child.name === name) found.push(child);
+    found.push(...findAll(child, name));
+  }
+  return found;
+}
+
+/**
+ * Decoded text content of an element
+ */
+export function textContent(node: XmlElement): string {
+  return node.children.map((child) => (isElement(child) ? textContent(child) : unescapeXml(child))).join('');
+}
+
+/**
+ * Replaces an element's content with text
+ */
+export function setTextContent(node: XmlElement, text: string): void {
+  node.children = [escapeXml(text)];
+  node.selfClosing = false;
+}
+
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'amp':
+        return '&';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1] === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10)
+        );
+    }
+  });
+}
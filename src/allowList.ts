@@ -0,0 +1,165 @@
+/**
+ * Allow-List
+ *
+ * Known-safe values the detectors leave alone: exact values (the company
+ * switchboard number, a sample SSN), email and web domains, and regular
+ * expressions a whole match must fit. The user's own list is kept in
+ * local storage and applies to every document they open; the document's
+ * list is saved in its settings and applies to everyone who opens it.
+ */
+
+import { AllowFilter, Match } from './detection';
+import { loadFakeValues } from './pseudonyms';
+import { getSetting, saveSetting } from './settings';
+
+export type AllowKind = 'value' | 'domain' | 'regex';
+
+export const ALLOW_KINDS: AllowKind[] = ['value', 'domain', 'regex'];
+
+export interface AllowEntry {
+  id: string;
+  kind: AllowKind;
+  /** The exact value, the domain, or the regular expression source */
+  value: string;
+}
+
+export interface AllowList {
+  /** Saved for this user, on this machine */
+  user: AllowEntry[];
+  /** Saved in the document */
+  document: AllowEntry[];
+}
+
+// Local storage key for the user's list, and document settings key for
+// the document's list
+const USER_KEY = 'redaction.allowList';
+const SETTINGS_KEY = 'redaction.allowList';
+
+const DOMAIN_PATTERN = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)+$/i;
+
+/**
+ * A domain as entered ("@ourcompany.com", "OurCompany.com") in the form
+ * it is compared in
+ */
+function normalizeDomain(domain: string): string {
+  return domain.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * The domain of an email address or web address, if the text is one
+ */
+function domainOf(text: string): string | null {
+  const at = text.lastIndexOf('@');
+  if (at !== -1) return text.substring(at + 1).toLowerCase();
+  if (!/^(?:[a-z][a-z0-9+.-]*:\/\/|www\.)/i.test(text)) return null;
+  try {
+    return new URL(text.includes('://') ? text : `https://${text}`).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the test for a single entry. A domain also covers its
+ * subdomains; a regular expression must match the whole value.
+ */
+function buildTest(entry: AllowEntry): (text: string) => boolean {
+  switch (entry.kind) {
+    case 'value': {
+      const value = entry.value.trim().toLowerCase();
+      return (text) => text.trim().toLowerCase() === value;
+    }
+    case 'domain': {
+      const domain = normalizeDomain(entry.value);
+      return (text) => {
+        const found = domainOf(text);
+        return found !== null && (found === domain || found.endsWith(`.${domain}`));
+      };
+    }
+    case 'regex': {
+      const pattern = new RegExp(`^(?:${entry.value})$`);
+      return (text) => pattern.test(text);
+    }
+  }
+}
+
+/**
+ * Checks an entry before it is saved or used
+ * Returns an error message, or null if the entry is valid
+ */
+export function validateAllowEntry(entry: AllowEntry): string | null {
+  if (!entry.value.trim()) {
+    return entry.kind === 'regex' ? 'Enter a regular expression.' : `Enter a ${entry.kind} to allow.`;
+  }
+  if (entry.kind === 'domain' && !DOMAIN_PATTERN.test(normalizeDomain(entry.value))) {
+    return 'Enter a domain such as ourcompany.com.';
+  }
+  if (entry.kind === 'regex') {
+    try {
+      // A pattern that matches empty text is almost certainly a mistake
+      if (buildTest(entry)('')) return 'The expression must not match empty text.';
+    } catch (error) {
+      return `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates a unique id for a new entry
+ */
+export function createAllowEntryId(): string {
+  return `allow-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+}
+
+function loadUserEntries(): AllowEntry[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(USER_KEY) ?? '[]') as unknown;
+    return Array.isArray(saved) ? (saved as AllowEntry[]) : [];
+  } catch {
+    // Storage can be unavailable in some hosts, or hold something unreadable
+    return [];
+  }
+}
+
+/**
+ * Reads the user's and the document's lists
+ */
+export function loadAllowList(): AllowList {
+  const saved = getSetting<AllowEntry[]>(SETTINGS_KEY, []);
+  return {
+    user: loadUserEntries(),
+    document: Array.isArray(saved) ? saved : [],
+  };
+}
+
+/**
+ * Saves the user's list into local storage
+ */
+export function saveUserAllowList(entries: AllowEntry[]): void {
+  localStorage.setItem(USER_KEY, JSON.stringify(entries));
+}
+
+/**
+ * Saves the document's list into the document settings
+ */
+export function saveDocumentAllowList(entries: AllowEntry[]): Promise<void> {
+  return saveSetting(SETTINGS_KEY, entries);
+}
+
+/**
+ * A fresh filter over every valid entry of both lists, for one run.
+ * Fake values earlier runs wrote as pseudonyms are ignored outright.
+ */
+export function createAllowFilter(
+  list: AllowList = loadAllowList(),
+  fakeValues: string[] = loadFakeValues()
+): AllowFilter {
+  const tests = [...list.user, ...list.document].filter((entry) => validateAllowEntry(entry) === null).map(buildTest);
+  const fakes = new Set(fakeValues);
+  return {
+    allows: (match: Match) => tests.some((test) => test(match.text)),
+    ignores: (match: Match) => fakes.has(match.text),
+    skipped: [],
+  };
+}
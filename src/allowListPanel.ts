@@ -0,0 +1,151 @@
+/**
+ * Allow-List Panel
+ *
+ * Task pane card for managing the known-safe values defined in
+ * allowList.ts, both the user's and the document's.
+ */
+
+import {
+  AllowEntry,
+  AllowKind,
+  AllowList,
+  createAllowEntryId,
+  loadAllowList,
+  saveDocumentAllowList,
+  saveUserAllowList,
+  validateAllowEntry,
+} from './allowList';
+import { escapeHtml } from './html';
+
+type AllowScope = keyof AllowList;
+
+const KIND_LABELS: Record<AllowKind, string> = {
+  value: 'Value',
+  domain: 'Domain',
+  regex: 'Regex',
+};
+
+const PLACEHOLDERS: Record<AllowKind, string> = {
+  value: 'Exact value, e.g. 078-05-1120',
+  domain: 'Domain, e.g. ourcompany.com',
+  regex: 'Regular expression, e.g. 555-01\\d\\d',
+};
+
+const SCOPE_LABELS: Record<AllowScope, string> = {
+  document: 'This document',
+  user: 'All my documents',
+};
+
+/**
+ * Render the allow-list card into the container and wire up its form
+ */
+export function renderAllowListPanel(container: HTMLElement): void {
+  const list = loadAllowList();
+  const entries = (['document', 'user'] as AllowScope[]).flatMap((scope) =>
+    list[scope].map((entry) => ({ scope, entry }))
+  );
+
+  container.innerHTML = `
+    <h2>Allow-list</h2>
+    ${
+      entries.length > 0
+        ? `
+      <ul class="rule-list">
+        ${entries
+          .map(
+            ({ scope, entry }) => `
+          <li class="rule-item">
+            <div class="rule-text">
+              <span class="rule-label">${KIND_LABELS[entry.kind]} · ${SCOPE_LABELS[scope]}</span>
+              <span class="rule-value">${escapeHtml(entry.kind === 'regex' ? `/${entry.value}/` : entry.value)}</span>
+            </div>
+            <button class="rule-delete" data-scope="${scope}" data-id="${escapeHtml(entry.id)}" title="Remove from allow-list">&times;</button>
+          </li>
+        `
+          )
+          .join('')}
+      </ul>
+    `
+        : '<p class="rule-empty">Nothing is allow-listed. Add values that are safe to leave, such as a switchboard number or your own email domain.</p>'
+    }
+    <form class="rule-form" novalidate>
+      <div class="rule-row">
+        <select name="kind" class="rule-input rule-kind">
+          ${(Object.keys(KIND_LABELS) as AllowKind[])
+            .map(
+              (kind) => `
+            <option value="${kind}">${KIND_LABELS[kind]}</option>
+          `
+            )
+            .join('')}
+        </select>
+        <input name="value" class="rule-input" placeholder="${escapeHtml(PLACEHOLDERS.value)}" autocomplete="off" />
+      </div>
+      <select name="scope" class="rule-input">
+        ${(Object.keys(SCOPE_LABELS) as AllowScope[])
+          .map(
+            (scope) => `
+          <option value="${scope}">${SCOPE_LABELS[scope]}</option>
+        `
+          )
+          .join('')}
+      </select>
+      <div class="rule-error" role="alert"></div>
+      <button type="submit" class="secondary-btn">Allow</button>
+    </form>
+  `;
+
+  const form = container.querySelector<HTMLFormElement>('.rule-form');
+  if (!form) return;
+  const errorBox = form.querySelector<HTMLElement>('.rule-error');
+  const field = <T extends HTMLElement>(name: string) => form.elements.namedItem(name) as T;
+
+  field<HTMLSelectElement>('kind').addEventListener('change', () => {
+    field<HTMLInputElement>('value').placeholder = PLACEHOLDERS[field<HTMLSelectElement>('kind').value as AllowKind];
+  });
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    const kind = field<HTMLSelectElement>('kind').value as AllowKind;
+    const value = field<HTMLInputElement>('value').value;
+    const entry: AllowEntry = { id: createAllowEntryId(), kind, value: kind === 'regex' ? value : value.trim() };
+
+    const error = validateAllowEntry(entry);
+    if (error) {
+      if (errorBox) errorBox.textContent = error;
+      return;
+    }
+    const scope = field<HTMLSelectElement>('scope').value as AllowScope;
+    await updateAllowList(container, scope, [...list[scope], entry]);
+  });
+
+  for (const deleteBtn of container.querySelectorAll<HTMLButtonElement>('.rule-delete')) {
+    deleteBtn.addEventListener('click', () => {
+      const scope = deleteBtn.dataset.scope as AllowScope;
+      updateAllowList(
+        container,
+        scope,
+        list[scope].filter((entry) => entry.id !== deleteBtn.dataset.id)
+      );
+    });
+  }
+}
+
+/**
+ * Save one of the lists and re-render, reporting a failed save in place
+ */
+async function updateAllowList(container: HTMLElement, scope: AllowScope, entries: AllowEntry[]): Promise<void> {
+  try {
+    if (scope === 'user') {
+      saveUserAllowList(entries);
+    } else {
+      await saveDocumentAllowList(entries);
+    }
+    renderAllowListPanel(container);
+  } catch (error) {
+    const errorBox = container.querySelector<HTMLElement>('.rule-error');
+    if (errorBox) {
+      errorBox.textContent = `Could not save the allow-list: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
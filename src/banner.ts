@@ -0,0 +1,269 @@
+/**
+ * Classification Banner
+ *
+ * Inserts the classification banner ("CONFIDENTIAL DOCUMENT" by default)
+ * into headers and/or footers. Each banner is wrapped in a tagged content
+ * control, so running the add-in again updates the existing banner
+ * instead of stacking a second one. The chosen level is also recorded
+ * in a custom document property.
+ */
+
+import { getSetting, saveSetting } from './settings';
+
+export type ClassificationLevel = 'public' | 'internal' | 'confidential' | 'restricted';
+
+export type BannerPlacement = 'header' | 'footer' | 'both';
+
+export interface BannerOptions {
+  level: ClassificationLevel;
+  /** Banner text; empty uses the level's default */
+  text: string;
+  /** Font colour as #RRGGBB; empty uses the level's default */
+  color: string;
+  placement: BannerPlacement;
+  /** Every section and header type, rather than the first primary header */
+  allSections: boolean;
+}
+
+export interface BannerReport {
+  level: ClassificationLevel;
+  /** Headers/footers that received a new banner */
+  inserted: number;
+  /** Headers/footers whose existing banner was replaced */
+  updated: number;
+  /** Banners removed from headers/footers no longer targeted, or left untagged by earlier versions */
+  removed: number;
+}
+
+interface LevelDefinition {
+  name: string;
+  text: string;
+  color: string;
+}
+
+export const CLASSIFICATION_LEVELS: Record<ClassificationLevel, LevelDefinition> = {
+  public: { name: 'Public', text: 'PUBLIC', color: '#2E7D32' },
+  internal: { name: 'Internal', text: 'INTERNAL USE ONLY', color: '#1F4E79' },
+  confidential: { name: 'Confidential', text: 'CONFIDENTIAL DOCUMENT', color: '#C00000' },
+  restricted: { name: 'Restricted', text: 'RESTRICTED - DO NOT DISTRIBUTE', color: '#7B0000' },
+};
+
+export const DEFAULT_BANNER_OPTIONS: BannerOptions = {
+  level: 'confidential',
+  text: '',
+  color: '',
+  placement: 'header',
+  allSections: false,
+};
+
+// Content control tag identifying banners inserted by this add-in
+export const BANNER_TAG = 'redaction-classification-banner';
+
+// Custom document property recording the classification level
+export const CLASSIFICATION_PROPERTY = 'Classification';
+
+// Text of the untagged banner earlier versions put into the first header
+const LEGACY_BANNER_TEXT = 'CONFIDENTIAL DOCUMENT';
+
+// Document settings key for the banner options
+const SETTINGS_KEY = 'redaction.banner';
+
+// Every header and footer a section can have (Word.HeaderFooterType)
+const HEADER_FOOTER_TYPES = ['Primary', 'FirstPage', 'EvenPages'] as const;
+
+/**
+ * Reads the saved banner options from the document settings
+ */
+export function loadBannerOptions(): BannerOptions {
+  return { ...DEFAULT_BANNER_OPTIONS, ...getSetting<Partial<BannerOptions>>(SETTINGS_KEY, {}) };
+}
+
+/**
+ * Saves the banner options into the document settings
+ */
+export function saveBannerOptions(options: BannerOptions): Promise<void> {
+  return saveSetting(SETTINGS_KEY, options);
+}
+
+/**
+ * The text a banner shows for the given options
+ */
+export function bannerText(options: BannerOptions): string {
+  return options.text.trim() || CLASSIFICATION_LEVELS[options.level].text;
+}
+
+/**
+ * Applies the level's banner style to the banner paragraph
+ */
+function styleBanner(paragraph: Word.Paragraph, options: BannerOptions): void {
+  paragraph.font.bold = true;
+  paragraph.font.size = 14;
+  paragraph.font.color = options.color || CLASSIFICATION_LEVELS[options.level].color;
+  paragraph.alignment = Word.Alignment.centered;
+}
+
+/**
+ * Lists every header and footer body, marking the ones the banner
+ * should be in
+ */
+async function loadHeaderFooters(
+  context: Word.RequestContext,
+  options: BannerOptions
+): Promise<{ body: Word.Body; kind: 'header' | 'footer'; target: boolean }[]> {
+  const sections = context.document.sections;
+  sections.load('items');
+  await context.sync();
+
+  const wantHeader = options.placement !== 'footer';
+  const wantFooter = options.placement !== 'header';
+
+  return sections.items.flatMap((section, index) =>
+    HEADER_FOOTER_TYPES.flatMap((type) => {
+      const inScope = options.allSections || (index === 0 && type === 'Primary');
+      return [
+        { body: section.getHeader(type), kind: 'header' as const, target: inScope && wantHeader },
+        { body: section.getFooter(type), kind: 'footer' as const, target: inScope && wantFooter },
+      ];
+    })
+  );
+}
+
+/**
+ * Inserts or updates the banner in every targeted header/footer, and
+ * removes banners left over in ones no longer targeted.
+ *
+ * Bodies are handled one at a time: sections linked to the previous
+ * section share its header, so once the banner is in the first one the
+ * linked ones already see it and aren't given a second copy. For the
+ * same reason, a banner this run has just written is never removed
+ * from a later, untargeted header that only shows it through the link.
+ */
+export async function applyBanner(context: Word.RequestContext, options: BannerOptions): Promise<BannerReport> {
+  const report: BannerReport = { level: options.level, inserted: 0, updated: 0, removed: 0 };
+  const text = bannerText(options);
+  report.removed += await removeLegacyBanner(context);
+
+  // Content control ids of the banners written in this run
+  const written = new Set<number>();
+
+  for (const { body, kind, target } of await loadHeaderFooters(context, options)) {
+    const existing = body.contentControls.getByTag(BANNER_TAG);
+    existing.load('items/id');
+    await context.sync();
+    // The rule doesn't count 'items/id' as loading the collection itself
+    // eslint-disable-next-line office-addins/load-object-before-read
+    const banners = existing.items;
+
+    let inserted: Word.ContentControl | null = null;
+    if (!target) {
+      for (const banner of banners.filter((item) => !written.has(item.id))) {
+        banner.paragraphs.getFirst().delete();
+        report.removed++;
+      }
+    } else if (banners.length > 0) {
+      const [banner, ...duplicates] = banners;
+      banner.insertText(text, Word.InsertLocation.replace);
+      styleBanner(banner.paragraphs.getFirst(), options);
+      duplicates.forEach((duplicate) => duplicate.paragraphs.getFirst().delete());
+      written.add(banner.id);
+      report.updated++;
+    } else {
+      const location = kind === 'header' ? Word.InsertLocation.start : Word.InsertLocation.end;
+      const paragraph = body.insertParagraph(text, location);
+      styleBanner(paragraph, options);
+      inserted = paragraph.insertContentControl();
+      inserted.tag = BANNER_TAG;
+      inserted.title = 'Classification banner';
+      inserted.load('id');
+      report.inserted++;
+    }
+    await context.sync();
+    if (inserted) written.add(inserted.id);
+  }
+
+  await recordClassification(context, options.level);
+  return report;
+}
+
+/**
+ * Removes the untagged banner paragraphs earlier versions inserted at
+ * the start of the first section's primary header, so a re-run doesn't
+ * leave them above the tagged banner. Only a document whose
+ * classification the add-in has recorded is touched; anywhere else the
+ * same text is the author's own. Returns how many were removed.
+ */
+async function removeLegacyBanner(context: Word.RequestContext): Promise<number> {
+  if (!isContentControlLookupSupported() || !(await hasRecordedClassification(context))) return 0;
+  const paragraphs = context.document.sections.getFirst().getHeader(Word.HeaderFooterType.primary).paragraphs;
+  paragraphs.load('items/text');
+  await context.sync();
+
+  const candidates = paragraphs.items
+    .filter((paragraph) => paragraph.text.trim() === LEGACY_BANNER_TEXT)
+    .map((paragraph) => ({ paragraph, container: paragraph.parentContentControlOrNullObject }));
+  if (candidates.length === 0) return 0;
+  candidates.forEach(({ container }) => container.load('isNullObject'));
+  await context.sync();
+
+  const legacy = candidates.filter(({ container }) => container.isNullObject);
+  legacy.forEach(({ paragraph }) => paragraph.delete());
+  await context.sync();
+  return legacy.length;
+}
+
+/**
+ * Texts of the banners in the document's headers and footers
+ */
+export async function findBanners(context: Word.RequestContext): Promise<string[]> {
+  const sections = context.document.sections;
+  sections.load('items');
+  await context.sync();
+
+  const collections = sections.items.flatMap((section) =>
+    HEADER_FOOTER_TYPES.flatMap((type) =>
+      [section.getHeader(type), section.getFooter(type)].map((body) => {
+        const banners = body.contentControls.getByTag(BANNER_TAG);
+        banners.load('items/text');
+        return banners;
+      })
+    )
+  );
+  await context.sync();
+
+  // Linked sections report the same banner again
+  return [...new Set(collections.flatMap((banners) => banners.items.map((banner) => banner.text)))];
+}
+
+/**
+ * Check if Word API version supports looking up a paragraph's content
+ * control without throwing (1.3+)
+ */
+function isContentControlLookupSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.3');
+}
+
+/**
+ * Check if Word API version supports custom document properties (1.3+)
+ */
+function isCustomPropertiesSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.3');
+}
+
+/**
+ * Whether an earlier run recorded the document's classification
+ */
+async function hasRecordedClassification(context: Word.RequestContext): Promise<boolean> {
+  const property = context.document.properties.customProperties.getItemOrNullObject(CLASSIFICATION_PROPERTY);
+  property.load('isNullObject');
+  await context.sync();
+  return !property.isNullObject;
+}
+
+/**
+ * Records the classification level in a custom document property
+ */
+async function recordClassification(context: Word.RequestContext, level: ClassificationLevel): Promise<void> {
+  if (!isCustomPropertiesSupported()) return;
+  context.document.properties.customProperties.add(CLASSIFICATION_PROPERTY, CLASSIFICATION_LEVELS[level].name);
+  await context.sync();
+}
@@ -0,0 +1,89 @@
+/**
+ * Classification Banner Panel
+ *
+ * Task pane card for choosing the banner's classification level, text,
+ * colour and placement.
+ */
+
+import {
+  BannerOptions,
+  BannerPlacement,
+  CLASSIFICATION_LEVELS,
+  ClassificationLevel,
+  loadBannerOptions,
+  saveBannerOptions,
+} from './banner';
+import { escapeHtml } from './html';
+
+/**
+ * Render the banner card into the container
+ */
+export function renderBannerPanel(container: HTMLElement): void {
+  const options = loadBannerOptions();
+  const level = CLASSIFICATION_LEVELS[options.level];
+
+  container.innerHTML = `
+    <h2>Classification banner</h2>
+    <form class="rule-form banner-form">
+      <div class="marker-row">
+        <span class="marker-name">Level</span>
+        <select name="level" class="rule-input marker-select">
+          ${(Object.keys(CLASSIFICATION_LEVELS) as ClassificationLevel[])
+            .map(
+              (id) => `
+            <option value="${id}" ${id === options.level ? 'selected' : ''}>${CLASSIFICATION_LEVELS[id].name}</option>
+          `
+            )
+            .join('')}
+        </select>
+      </div>
+      <div class="rule-row">
+        <input name="text" class="rule-input" value="${escapeHtml(options.text)}" placeholder="${escapeHtml(level.text)}" autocomplete="off" />
+        <input name="color" type="color" class="banner-color" value="${escapeHtml(options.color || level.color)}" title="Banner colour" />
+      </div>
+      <div class="marker-row">
+        <span class="marker-name">Placement</span>
+        <select name="placement" class="rule-input marker-select">
+          <option value="header" ${options.placement === 'header' ? 'selected' : ''}>Header</option>
+          <option value="footer" ${options.placement === 'footer' ? 'selected' : ''}>Footer</option>
+          <option value="both" ${options.placement === 'both' ? 'selected' : ''}>Header and footer</option>
+        </select>
+      </div>
+      <label class="option-toggle">
+        <input type="checkbox" name="allSections" ${options.allSections ? 'checked' : ''} />
+        <span>All sections and first/even page headers</span>
+      </label>
+      <div class="rule-error" role="alert"></div>
+    </form>
+  `;
+
+  const form = container.querySelector<HTMLFormElement>('.banner-form');
+  if (!form) return;
+  const field = <T extends HTMLElement>(name: string) => form.elements.namedItem(name) as T;
+
+  form.addEventListener('change', async (event) => {
+    const levelChanged = (event.target as HTMLElement | null)?.getAttribute('name') === 'level';
+    const newLevel = field<HTMLSelectElement>('level').value as ClassificationLevel;
+    const color = field<HTMLInputElement>('color').value;
+
+    const updated: BannerOptions = {
+      level: newLevel,
+      text: field<HTMLInputElement>('text').value.trim(),
+      // Switching level resets the colour to the new level's default,
+      // as does picking the default colour explicitly
+      color: levelChanged || color.toUpperCase() === CLASSIFICATION_LEVELS[newLevel].color ? '' : color,
+      placement: field<HTMLSelectElement>('placement').value as BannerPlacement,
+      allSections: field<HTMLInputElement>('allSections').checked,
+    };
+
+    try {
+      await saveBannerOptions(updated);
+      if (levelChanged) renderBannerPanel(container);
+    } catch (error) {
+      const errorBox = container.querySelector<HTMLElement>('.rule-error');
+      if (errorBox) {
+        errorBox.textContent = `Could not save banner settings: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  });
+}
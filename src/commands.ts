@@ -0,0 +1,206 @@
+/**
+ * Ribbon Commands
+ *
+ * "Redact", "Scan only" and "Verify" run from the ribbon or a keyboard shortcut
+ * without opening the task pane. They use the options saved from the
+ * task pane's last run over the whole document and report through a
+ * notification. The add-in uses a shared runtime, so this page also
+ * hosts the task pane and the commands see the same document settings.
+ */
+
+import { loadBannerOptions } from './banner';
+import { describeError } from './errors';
+import { loadMarkerStyles, resolveMarkerStyle } from './markers';
+import { showNotification, Notice } from './notification';
+import { withMonitorPaused } from './monitor';
+import { loadActiveProfile } from './profiles';
+import { redactDocument, RedactionOptions, scanDocument } from './redaction';
+import { getActiveDetectors } from './rules';
+import { loadRunDefaults } from './runDefaults';
+import { DOCUMENT_SCOPE } from './scope';
+import { verifyDocument } from './verification';
+
+// Action ids shared by the manifest's buttons and shortcuts.json
+const REDACT_ACTION = 'redactDocument';
+const SCAN_ACTION = 'scanDocument';
+const VERIFY_ACTION = 'verifyDocument';
+
+// A command started while another is running is turned away
+let running = false;
+
+/**
+ * Associates the command handlers with their action ids
+ */
+export function registerCommands(): void {
+  Office.actions.associate(REDACT_ACTION, redactCommand);
+  Office.actions.associate(SCAN_ACTION, scanCommand);
+  Office.actions.associate(VERIFY_ACTION, verifyCommand);
+}
+
+/**
+ * The options a command runs with
+ */
+function commandOptions(): RedactionOptions {
+  const defaults = loadRunDefaults();
+  return {
+    scope: DOCUMENT_SCOPE,
+    clearProperties: defaults.clearProperties,
+    removeHiddenText: defaults.removeHiddenText,
+    tracking: defaults.tracking,
+    banner: loadBannerOptions(),
+    pseudonyms: { mode: defaults.pseudonymMode, key: '' },
+    threshold: defaults.threshold,
+    entities: defaults.entities,
+    profile: loadActiveProfile()?.name,
+  };
+}
+
+/**
+ * "2 Emails, 1 Phone Numbers", in detector order
+ */
+function describeCounts(counts: Record<string, number>): string {
+  return getActiveDetectors()
+    .filter((detector) => counts[detector.id])
+    .map((detector) => `${counts[detector.id]} ${detector.label}`)
+    .join(', ');
+}
+
+/**
+ * " 3 allow-listed values were skipped.", or nothing when none were
+ */
+function describeSkipped(skipped = 0): string {
+  if (skipped === 0) return '';
+  return ` ${skipped} allow-listed value${skipped !== 1 ? 's were' : ' was'} skipped.`;
+}
+
+/**
+ * Whether any active detector is set to the reversible "token" style
+ */
+function usesTokens(): boolean {
+  const styles = loadMarkerStyles();
+  return getActiveDetectors().some((detector) => resolveMarkerStyle(styles, detector.id) === 'token');
+}
+
+async function redactCommand(event?: Office.AddinCommands.Event): Promise<void> {
+  await runCommand(event, async () => {
+    const options = commandOptions();
+    if (options.pseudonyms.mode === 'hmac') {
+      return {
+        kind: 'warning',
+        title: 'Open the Task Pane',
+        message: 'Keyed-hash pseudonyms need a key, which is never saved. Redact from the task pane to enter it.',
+      };
+    }
+    // A notification has nowhere to export the recovery key from, and
+    // tokens without their key can never be reversed
+    if (usesTokens()) {
+      return {
+        kind: 'warning',
+        title: 'Open the Task Pane',
+        message:
+          'Reversible tokens need their recovery key exported after the run. Redact from the task pane to save it.',
+      };
+    }
+
+    const result = await withMonitorPaused(() => redactDocument(undefined, options));
+    if (!result.success) {
+      const done =
+        result.totalRedacted > 0
+          ? ` ${result.totalRedacted} match${result.totalRedacted !== 1 ? 'es were' : ' was'} redacted before it stopped.`
+          : '';
+      return {
+        kind: 'error',
+        title: 'Redaction Failed',
+        message: `${result.error || 'An unexpected error occurred.'}${done} Open the task pane and run Redact Document again to finish.`,
+      };
+    }
+    if (result.totalRedacted === 0) {
+      return {
+        kind: 'warning',
+        title: 'No Sensitive Data Found',
+        message: `Nothing in the document was changed.${describeSkipped(result.skipped)}`,
+      };
+    }
+    return {
+      kind: 'success',
+      title: 'Redaction Complete',
+      message:
+        `Redacted ${result.totalRedacted} item${result.totalRedacted !== 1 ? 's' : ''}: ${describeCounts(result.counts)}.` +
+        describeSkipped(result.skipped),
+    };
+  });
+}
+
+async function scanCommand(event?: Office.AddinCommands.Event): Promise<void> {
+  await runCommand(event, async () => {
+    const { candidates, skipped } = await scanDocument(commandOptions());
+    if (candidates.length === 0) {
+      return {
+        kind: 'success',
+        title: 'No Sensitive Data Found',
+        message: `The scan found nothing to redact.${describeSkipped(skipped)}`,
+      };
+    }
+    const counts: Record<string, number> = {};
+    for (const candidate of candidates) {
+      counts[candidate.detector] = (counts[candidate.detector] ?? 0) + 1;
+    }
+    return {
+      kind: 'warning',
+      title: 'Sensitive Data Found',
+      message:
+        `Found ${candidates.length} match${candidates.length !== 1 ? 'es' : ''}: ${describeCounts(counts)}. ` +
+        `Nothing was changed; open the task pane to review them.${describeSkipped(skipped)}`,
+    };
+  });
+}
+
+async function verifyCommand(event?: Office.AddinCommands.Event): Promise<void> {
+  await runCommand(event, async () => {
+    const { threshold, entities } = loadRunDefaults();
+    const result = await verifyDocument({ threshold, entities });
+    if (!result.success) {
+      return { kind: 'error', title: 'Verification Failed', message: result.error || 'An unexpected error occurred.' };
+    }
+    if (result.passed) {
+      return { kind: 'success', title: 'Verification Passed', message: 'The document is ready to share.' };
+    }
+    const failed = result.checks.filter((check) => check.status === 'fail');
+    return {
+      kind: 'error',
+      title: 'Verification Failed',
+      message: failed.map((check) => `${check.label}: ${check.details}`).join(' '),
+    };
+  });
+}
+
+/**
+ * Runs a command, shows its notice and tells Office it has finished.
+ * Shortcuts call the handler without an event.
+ */
+async function runCommand(event: Office.AddinCommands.Event | undefined, run: () => Promise<Notice>): Promise<void> {
+  if (running) {
+    event?.completed();
+    return;
+  }
+
+  running = true;
+  let notice: Notice;
+  try {
+    notice = await run();
+  } catch (error) {
+    notice = {
+      kind: 'error',
+      title: 'Error',
+      message: describeError(error),
+    };
+  } finally {
+    running = false;
+  }
+
+  try {
+    await showNotification(notice);
+  } finally {
+    event?.completed();
+  }
+}
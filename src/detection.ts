@@ -0,0 +1,185 @@
+/**
+ * Detection Engine
+ *
+ * Pure, host-independent detection of sensitive information in plain
+ * text. Nothing here touches Office, so it runs the same in the task
+ * pane and in Node. The Word layer in redaction.ts maps the returned
+ * offsets onto document ranges.
+ */
+
+import { Detector, DETECTORS } from './detectors';
+
+/**
+ * A single detection in the scanned text
+ */
+export interface Match {
+  /** Id of the detector that produced the match */
+  detector: string;
+  text: string;
+  /** Character offset of the match in the scanned text */
+  offset: number;
+  /** How likely the match is real sensitive data, from 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * Known-safe values a scan leaves alone. Matches it allows, and matches
+ * that lie inside them, are collected in `skipped` instead of being
+ * reported. Matches it `ignores`, such as fake values an earlier run
+ * wrote as pseudonyms, are dropped without being counted.
+ */
+export interface AllowFilter {
+  allows: (match: Match) => boolean;
+  ignores?: (match: Match) => boolean;
+  skipped: Match[];
+}
+
+/**
+ * A raw pattern match with its position in the text
+ */
+interface TextMatch {
+  text: string;
+  offset: number;
+}
+
+/**
+ * Collect the sensitive value of every match of a detector's pattern,
+ * taken from the detector's value group when it declares one
+ */
+function findMatches(text: string, detector: Detector): TextMatch[] {
+  if (!detector.pattern) return [];
+  return [...text.matchAll(detector.pattern)].map((match) => {
+    const value = match[detector.group ?? 0] ?? '';
+    return {
+      text: value,
+      offset: (match.index ?? 0) + match[0].length - value.length,
+    };
+  });
+}
+
+/**
+ * Patterns may start on the separator before the value (e.g. the space
+ * in "call (555) 123-4567"); keep it out of the match
+ */
+function trimLeadingSeparator(match: TextMatch): TextMatch {
+  const trimmed = match.text.replace(/^[-.\s]+/, '');
+  return { text: trimmed, offset: match.offset + match.text.length - trimmed.length };
+}
+
+// Characters before a match searched for context keywords
+const CONTEXT_WINDOW = 40;
+
+const CONTEXT_BOOST = 0.15;
+const CONTEXT_PENALTY = 0.5;
+
+/**
+ * Default minimum confidence for a match to be reported
+ */
+export const DEFAULT_THRESHOLD = 0.5;
+
+/**
+ * Adjust a detector's confidence by the keywords just before the match:
+ * "tel" or "SSN" nearby raise it, a label such as "Invoice #" lowers it
+ */
+function scoreContext(detector: Detector, text: string, offset: number, confidence: number): number {
+  if (!detector.context) return confidence;
+  const before = text.substring(Math.max(0, offset - CONTEXT_WINDOW), offset);
+
+  let score = confidence;
+  if (detector.context.penalty?.test(before)) score -= CONTEXT_PENALTY;
+  else if (detector.context.boost?.test(before)) score += CONTEXT_BOOST;
+  return Math.min(1, Math.max(0, score));
+}
+
+/**
+ * Merge overlapping matches into one, so a value found by several
+ * detectors is redacted and counted once. The merged match spans them
+ * all and keeps the most confident detector; ties go to the detector
+ * listed first.
+ */
+export function collapseOverlaps(matches: Match[], detectors: Detector[]): Match[] {
+  const priority = new Map(detectors.map((detector, index) => [detector.id, index]));
+  const rank = (match: Match) => priority.get(match.detector) ?? detectors.length;
+  const outranks = (a: Match, b: Match) =>
+    a.confidence > b.confidence || (a.confidence === b.confidence && rank(a) < rank(b));
+  const sorted = [...matches].sort((a, b) => a.offset - b.offset);
+  const collapsed: Match[] = [];
+
+  for (const match of sorted) {
+    const last = collapsed[collapsed.length - 1];
+    if (!last || match.offset >= last.offset + last.text.length) {
+      collapsed.push(match);
+      continue;
+    }
+
+    const end = Math.max(last.offset + last.text.length, match.offset + match.text.length);
+    const text = last.text + match.text.substring(last.offset + last.text.length - match.offset);
+    const winner = outranks(match, last) ? match : last;
+    collapsed[collapsed.length - 1] = {
+      detector: winner.detector,
+      text: text.substring(0, end - last.offset),
+      offset: last.offset,
+      confidence: winner.confidence,
+    };
+  }
+
+  return collapsed;
+}
+
+/**
+ * Find every sensitive match in the text, in order of offset.
+ * Each match is scored by its detector and the words around it; matches
+ * below the threshold are dropped, and overlapping ones (e.g. a phone
+ * number inside an IBAN) collapse into a single match. `found` holds
+ * matches made elsewhere, such as by the entity model, to merge in.
+ * Matches the allow-list covers are set aside before any of that.
+ */
+export function detect(
+  text: string,
+  detectors: Detector[] = DETECTORS,
+  threshold = 0,
+  found: Match[] = [],
+  allow?: AllowFilter
+): Match[] {
+  const detected = found.filter((match) => match.confidence >= threshold);
+
+  for (const detector of detectors) {
+    for (const match of findMatches(text, detector).map(trimLeadingSeparator)) {
+      if (!match.text) continue;
+      if (detector.validate && !detector.validate(match.text)) continue;
+
+      const confidence = scoreContext(
+        detector,
+        text,
+        match.offset,
+        typeof detector.confidence === 'number' ? detector.confidence : detector.confidence(match.text)
+      );
+      if (confidence < threshold) continue;
+
+      detected.push({ detector: detector.id, text: match.text, offset: match.offset, confidence });
+    }
+  }
+
+  if (!allow) return collapseOverlaps(detected, detectors);
+
+  // An allowed value also shields what lies within it, such as a custom
+  // term inside an allowed email address
+  const within = (match: Match, safe: Match[]) =>
+    safe.some(
+      (entry) => match.offset >= entry.offset && match.offset + match.text.length <= entry.offset + entry.text.length
+    );
+  const ignored = collapseOverlaps(
+    detected.filter((match) => allow.ignores?.(match)),
+    detectors
+  );
+  const remaining = detected.filter((match) => !within(match, ignored));
+  const allowed = collapseOverlaps(
+    remaining.filter((match) => allow.allows(match)),
+    detectors
+  );
+  allow.skipped.push(...allowed);
+  return collapseOverlaps(
+    remaining.filter((match) => !within(match, allowed)),
+    detectors
+  );
+}
@@ -0,0 +1,469 @@
+/**
+ * Detector Registry
+ *
+ * Every kind of sensitive information the add-in can find is declared
+ * here as a detector: a pattern, an optional validator and the labels
+ * the task pane shows. When two detectors match overlapping text, the
+ * more confident one names the match; on a tie, the earlier one wins.
+ * Detectors tied to regions only run when one of them is selected
+ * (see locales.ts); optional ones only when a policy profile lists them.
+ */
+
+import {
+  hasDigit,
+  isValidAadhaar,
+  isValidCardNumber,
+  isValidDateOfBirth,
+  isValidIBAN,
+  isValidIPv6,
+  isValidNANP,
+  isValidNINO,
+  isValidSIN,
+  isValidSpanishId,
+  isValidSSN,
+  isValidTeudatZehut,
+} from './validators';
+import { Region } from './locales';
+import { isValidNationalNumber, parseInternationalNumber } from './phoneNumbers';
+
+export interface Detector {
+  id: string;
+  /** Short plural label for the result stats, e.g. "Emails" */
+  label: string;
+  /** Description for the "What will be redacted" list */
+  description: string;
+  /** Upper-case name used in typed redaction labels, e.g. [EMAIL] */
+  tag: string;
+  /** Global pattern to scan for; entity detectors (see ner.ts) have none */
+  pattern?: RegExp;
+  /**
+   * Capture group holding the sensitive value, when the pattern also
+   * matches leading context such as "DOB:". The group must end the
+   * match. Defaults to the whole match.
+   */
+  group?: number;
+  /** Rejects pattern matches that are not real values */
+  validate?: (value: string) => boolean;
+  /** How likely a validated match is real sensitive data, from 0 to 1 */
+  confidence: number | ((value: string) => number);
+  /** Keywords just before a match that raise or lower its confidence */
+  context?: ContextKeywords;
+  /** Regions the format belongs to; without any, it runs everywhere */
+  regions?: Region[];
+  /** Only runs when a policy profile turns it on (see profiles.ts) */
+  optional?: boolean;
+}
+
+export interface ContextKeywords {
+  /** Makes the match more likely, anywhere shortly before it (e.g. "tel") */
+  boost?: RegExp;
+  /** Makes it less likely when it directly labels the match (e.g. "Invoice #") */
+  penalty?: RegExp;
+}
+
+// Formatted numbers are far less likely to be coincidental digit runs
+const formattedConfidence = (formatted: number, bare: number) => (value: string) =>
+  /\D/.test(value) ? formatted : bare;
+
+// Labels of numbers that are not personal data; a number right after
+// one of them is most likely an order, account or postal code
+const NUMBER_LABELS =
+  /\b(?:invoice|order|account|acct|ref(?:erence)?|po|zip|postal|tracking|serial|case|ticket|policy|claim|customer|member|employee|routing|sku|part)\s*(?:no\.?|number|num|id|code)?\s*#?\s*:?\s*$/i;
+
+// Fictional and unassigned numbers still look like phone numbers, so a
+// NANP violation lowers confidence instead of rejecting the match
+const NANP_FACTOR = 0.7;
+
+const PHONE_KEYWORDS = /\b(?:tel|phone|cell|mobile|fax|call|contact|direct line|ph)\b/i;
+
+/**
+ * Phone numbers written the way they are dialed within a region, e.g.
+ * "020 7946 0958" in the UK. International numbers are matched by the
+ * phoneInternational detector instead.
+ */
+function nationalPhone(region: Region, id: string, label: string, pattern: RegExp): Detector {
+  return {
+    id,
+    label,
+    description: `${label} (national format)`,
+    tag: 'PHONE',
+    pattern,
+    validate: (value) => isValidNationalNumber(value, region),
+    confidence: formattedConfidence(0.8, 0.5),
+    context: { boost: PHONE_KEYWORDS, penalty: NUMBER_LABELS },
+    regions: [region],
+  };
+}
+
+export const DETECTORS: Detector[] = [
+  {
+    id: 'email',
+    label: 'Emails',
+    description: 'Email addresses',
+    tag: 'EMAIL',
+    /**
+     * Email pattern - matches standard email formats
+     * Examples: john.doe@example.com, user+tag@domain.co.uk
+     */
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    confidence: 0.95,
+  },
+  {
+    id: 'creditCard',
+    label: 'Cards',
+    description: 'Credit card numbers (Luhn-validated)',
+    tag: 'CARD',
+    /**
+     * 13-19 digits, optionally grouped by spaces or dashes
+     * Examples: 4111 1111 1111 1111, 4111-1111-1111-1111, 378282246310005
+     */
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isValidCardNumber,
+    confidence: 0.9,
+  },
+  {
+    id: 'iban',
+    label: 'IBANs',
+    description: 'International bank account numbers (IBAN)',
+    tag: 'IBAN',
+    /**
+     * Country code, check digits and up to 30 alphanumerics, compact or
+     * printed in groups of four
+     * Examples: GB82WEST12345698765432, DE89 3704 0044 0532 0130 00
+     */
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    validate: isValidIBAN,
+    confidence: 0.95,
+  },
+  {
+    id: 'ipv4',
+    label: 'IPv4',
+    description: 'IPv4 addresses',
+    tag: 'IP',
+    /**
+     * Four dot-separated octets, each 0-255
+     * Examples: 192.168.0.1, 10.0.0.254
+     */
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\b/g,
+    confidence: 0.8,
+  },
+  {
+    id: 'ipv6',
+    label: 'IPv6',
+    description: 'IPv6 addresses',
+    tag: 'IP',
+    /**
+     * Colon-separated hex groups, full or "::"-compressed
+     * Examples: 2001:0db8:85a3:0000:0000:8a2e:0370:7334, fe80::1
+     */
+    pattern: /(?<![\w:])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/g,
+    validate: isValidIPv6,
+    confidence: 0.85,
+  },
+  {
+    id: 'phone',
+    label: 'Phone Numbers',
+    description: 'Phone numbers',
+    tag: 'PHONE',
+    /**
+     * Phone number patterns - multiple formats supported
+     * Formats covered:
+     * - (123) 456-7890
+     * - (123)456-7890
+     * - 123-456-7890
+     * - 123.456.7890
+     * - 123 456 7890
+     * - +1 123 456 7890
+     * - +1-123-456-7890
+     * - +1(123)456-7890
+     * - +11234567890 (with country code)
+     * - 1234567890
+     * Note: Captures optional leading + for international numbers
+     */
+    pattern: /\+?1?[-.\s]?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}\b/g,
+    // Require 10-11 digits (with area code) to avoid false positives
+    validate: (value) => {
+      const digits = value.replace(/\D/g, '');
+      return digits.length >= 10 && digits.length <= 11;
+    },
+    confidence: (value) => formattedConfidence(0.85, 0.6)(value) * (isValidNANP(value) ? 1 : NANP_FACTOR),
+    context: { boost: PHONE_KEYWORDS, penalty: NUMBER_LABELS },
+    regions: ['us', 'ca'],
+  },
+  {
+    id: 'phoneInternational',
+    label: 'Intl. Phones',
+    description: 'International phone numbers (+44 20 7946 0958)',
+    tag: 'PHONE',
+    /**
+     * "+" or "00", the dialing code and the number in groups, optionally
+     * with the trunk prefix in brackets
+     * Examples: +44 20 7946 0958, +44 (0)20 7946 0958, 0049 30 1234567,
+     * +972-50-123-4567, +91 98765 43210
+     */
+    pattern: /(?<![\w+])(?:\+|\b00)[1-9]\d{0,2}(?:[-.\s]?(?:\(0\)[-.\s]?)?\(?\d+\)?){1,6}(?!\d)/g,
+    // Length rules are known for listed countries, so their numbers are
+    // more certain than numbers with other dialing codes
+    validate: (value) => parseInternationalNumber(value) !== null,
+    confidence: (value) => (parseInternationalNumber(value)?.known ? 0.85 : 0.65),
+    context: { boost: PHONE_KEYWORDS, penalty: NUMBER_LABELS },
+  },
+  /**
+   * Examples: 020 7946 0958, 07700 900123, 01632 960123
+   */
+  nationalPhone('gb', 'phoneGb', 'UK Phones', /\b0\d{2,4}[-.\s]?\d{3,4}[-.\s]?\d{3,4}\b/g),
+  /**
+   * Examples: 030 12345678, 0151 23456789, 089/1234567
+   */
+  nationalPhone('de', 'phoneDe', 'German Phones', /\b0\d{2,4}[-/.\s]?\d{3,8}(?:[-.\s]\d{1,5})?\b/g),
+  /**
+   * Examples: 050-123-4567, 02-123-4567, 03 1234567
+   */
+  nationalPhone('il', 'phoneIl', 'Israeli Phones', /\b0\d{1,2}[-.\s]?\d{3}[-.\s]?\d{4}\b/g),
+  /**
+   * Mobile numbers with an optional trunk prefix, and landlines
+   * Examples: 98765 43210, 098765 43210, 011 2345 6789
+   */
+  nationalPhone(
+    'in',
+    'phoneIn',
+    'Indian Phones',
+    /\b(?:0?[6-9]\d{4}[-.\s]?\d{5}|0\d{2,4}[-.\s]?\d{3,4}[-.\s]?\d{4})\b/g
+  ),
+  /**
+   * Mobile numbers in groups of three, landlines as 2-3-2-2
+   * Examples: 612 345 678, 912 345 678, 91 123 45 67
+   */
+  nationalPhone(
+    'es',
+    'phoneEs',
+    'Spanish Phones',
+    /\b(?:[6-9]\d{2}[-.\s]?\d{3}[-.\s]?\d{3}|[89]\d[-.\s]?\d{3}[-.\s]?\d{2}[-.\s]?\d{2})\b/g
+  ),
+  {
+    id: 'ssn',
+    label: 'SSNs',
+    description: 'Social Security Numbers',
+    tag: 'SSN',
+    /**
+     * Full Social Security Number patterns
+     * Formats covered:
+     * - 123-45-6789
+     * - 123 45 6789
+     * - 123.45.6789
+     * - 123456789 (9 consecutive digits)
+     */
+    pattern: /\b\d{3}[-.\s]?\d{2}[-.\s]?\d{4}\b/g,
+    validate: isValidSSN,
+    // Consistent separators (123-45-6789) are typical; mixed ones are
+    // more often a ZIP+4 code (12345-6789)
+    confidence: (value) => {
+      const separators = value.replace(/\d/g, '');
+      if (separators.length === 0) return 0.6;
+      return separators.length === 2 && separators[0] === separators[1] ? 0.9 : 0.4;
+    },
+    context: {
+      boost: /\b(?:ssn|ss#|social\s+security|taxpayer|tin)\b/i,
+      penalty: NUMBER_LABELS,
+    },
+    regions: ['us'],
+  },
+  {
+    id: 'ssnMasked',
+    label: 'Masked SSNs',
+    description: 'Masked SSNs (XXX-XX-1234)',
+    tag: 'SSN',
+    /**
+     * Masked SSN formats
+     * Formats covered:
+     * - xxxx1234, XXXX1234, ****1234
+     * - xxx-xx-1234, XXX-XX-1234
+     * - *xx-xx-1234
+     * A lookbehind stands in for \b, which never matches before a "*"
+     */
+    pattern: /(?<![\w*])[xX*]{3,4}[-.\s]?[xX*]{0,2}[-.\s]?\d{4}\b/g,
+    confidence: 0.85,
+    regions: ['us'],
+  },
+  {
+    id: 'ssnPartial',
+    label: 'Partial SSNs',
+    description: 'Partial SSNs (last 4 digits in context)',
+    tag: 'SSN',
+    /**
+     * Partial SSN - Last 4 digits mentioned in context
+     * Matches patterns like:
+     * - "last four digits ... are 1234"
+     * - "last 4 digits ... 5678"
+     * - "SSN ending in 9012", "ends in 3456"
+     * - "SSN: 7890" or the last 4 after "SSN: 123-45-"
+     */
+    pattern:
+      /(?:last\s+(?:four|4)\s+digits?(?:\s+\w+){0,10}\s+(?:are|is|:)?\s*|(?:ending|ends)\s+in\s+|(?:ssn|social\s*security(?:\s*number)?)[:\s]+(?:\d{3}[-.\s]?\d{2}[-.\s]?)?)(\d{4})\b/gi,
+    group: 1,
+    confidence: 0.7,
+    regions: ['us'],
+  },
+  {
+    id: 'nino',
+    label: 'NI Numbers',
+    description: 'UK National Insurance numbers',
+    tag: 'NINO',
+    /**
+     * Two letters, three pairs of digits and a suffix letter
+     * Examples: AB123456C, AB 12 34 56 C
+     */
+    pattern: /\b[A-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g,
+    validate: isValidNINO,
+    confidence: 0.9,
+    regions: ['gb'],
+  },
+  {
+    id: 'sin',
+    label: 'SINs',
+    description: 'Canadian Social Insurance Numbers (Luhn-validated)',
+    tag: 'SIN',
+    /**
+     * Nine digits in groups of three
+     * Examples: 130 692 544, 130-692-544, 130692544
+     */
+    pattern: /\b\d{3}[-\s]?\d{3}[-\s]?\d{3}\b/g,
+    validate: isValidSIN,
+    confidence: formattedConfidence(0.85, 0.55),
+    context: { boost: /\b(?:sin|social\s+insurance|NAS)\b/i, penalty: NUMBER_LABELS },
+    regions: ['ca'],
+  },
+  {
+    id: 'teudatZehut',
+    label: 'Israeli IDs',
+    description: 'Israeli identity numbers (Teudat Zehut)',
+    tag: 'ID',
+    /**
+     * Nine digits, the check digit sometimes set apart
+     * Examples: 123456782, 12345678-2
+     */
+    pattern: /\b\d{8}-?\d\b/g,
+    validate: isValidTeudatZehut,
+    confidence: 0.55,
+    context: { boost: /\b(?:teudat\s+zehut|t\.z|ID|identity)\b|ת\.?ז|תעודת\s+זהות/i, penalty: NUMBER_LABELS },
+    regions: ['il'],
+  },
+  {
+    id: 'aadhaar',
+    label: 'Aadhaar',
+    description: 'Indian Aadhaar numbers (Verhoeff-validated)',
+    tag: 'AADHAAR',
+    /**
+     * Twelve digits, usually in groups of four
+     * Examples: 2345 6789 0124, 234567890124
+     */
+    pattern: /\b[2-9]\d{3}[-\s]?\d{4}[-\s]?\d{4}\b/g,
+    validate: isValidAadhaar,
+    confidence: formattedConfidence(0.9, 0.7),
+    context: { boost: /\b(?:aadhaar|aadhar|UID|UIDAI)\b/i, penalty: NUMBER_LABELS },
+    regions: ['in'],
+  },
+  {
+    id: 'spanishId',
+    label: 'DNI/NIE',
+    description: 'Spanish DNI and NIE numbers',
+    tag: 'DNI',
+    /**
+     * Eight digits (DNI), or X, Y or Z and seven digits (NIE), followed
+     * by the control letter
+     * Examples: 12345678Z, 12345678-Z, X1234567L
+     */
+    pattern: /\b(?:[XYZ]-?\d{7}|\d{8})-?[A-Z]\b/g,
+    validate: isValidSpanishId,
+    confidence: 0.9,
+    context: { boost: /\b(?:DNI|NIE|NIF|documento|identidad)\b/i },
+    regions: ['es'],
+  },
+  {
+    id: 'dateOfBirth',
+    label: 'Birth Dates',
+    description: 'Dates of birth',
+    tag: 'DOB',
+    /**
+     * A date introduced by a birth keyword
+     * Examples: "DOB: 03/14/1985", "born on March 14, 1985",
+     * "Date of Birth 1985-03-14"
+     */
+    pattern:
+      /(?:\bDOB|\bdate\s+of\s+birth|\bbirth\s*date|\bborn(?:\s+on)?)[:\s]+(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-](?:\d{4}|\d{2})|[A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4}|\d{1,2}\s+[A-Za-z]{3,9}\.?,?\s+\d{4})\b/gi,
+    group: 1,
+    validate: isValidDateOfBirth,
+    confidence: 0.9,
+  },
+  {
+    id: 'passport',
+    label: 'Passports',
+    description: 'Passport numbers',
+    tag: 'PASSPORT',
+    /**
+     * A 6-9 character document number introduced by "passport"
+     * Examples: "Passport No. 123456789", "passport number: X1234567"
+     */
+    pattern: /\bpassport(?:\s*(?:no\.?|number|num\.?|#))?[:\s]+([A-Z0-9]{6,9})\b/gi,
+    group: 1,
+    validate: hasDigit,
+    confidence: 0.85,
+  },
+  {
+    id: 'mrn',
+    label: 'Record Numbers',
+    description: 'Medical record numbers',
+    tag: 'MRN',
+    /**
+     * A 5-15 character record number introduced by a record keyword
+     * Examples: "MRN: 00458812", "Medical Record No. A-20931"
+     */
+    pattern:
+      /(?:\bMRN|\bmedical\s+record)(?:\s*(?:no\.?|number|num\.?|#))?[:\s#]+([A-Z0-9][A-Z0-9-]{3,13}[A-Z0-9])\b/gi,
+    group: 1,
+    validate: hasDigit,
+    confidence: 0.9,
+    optional: true,
+  },
+  {
+    id: 'healthPlanId',
+    label: 'Health Plan IDs',
+    description: 'Health plan and Medicare beneficiary IDs',
+    tag: 'HEALTH_PLAN',
+    /**
+     * A 6-20 character member ID introduced by an insurance keyword
+     * Examples: "Health Plan ID: XEH123456789", "MBI 1EG4-TE5-MK73",
+     * "Member ID: W2847-3321"
+     */
+    pattern:
+      /(?:\bhealth\s+plan|\binsurance|\bmember|\bsubscriber|\bbeneficiary|\bMBI|\bHICN)(?:\s*(?:id|no\.?|number|num\.?|#))?[:\s#]+([A-Z0-9][A-Z0-9-]{4,18}[A-Z0-9])\b/gi,
+    group: 1,
+    validate: hasDigit,
+    confidence: 0.85,
+    optional: true,
+  },
+  {
+    id: 'driversLicense',
+    label: 'Licenses',
+    description: "US driver's license numbers",
+    tag: 'LICENSE',
+    /**
+     * A 5-15 character license number introduced by a license keyword
+     * (state formats vary too widely to match without context)
+     * Examples: "Driver's License: D1234567", "DL# 123-456-789"
+     */
+    pattern:
+      /(?:\bdriver'?s?\s+licen[sc]e|\bDL)(?:\s*(?:no\.?|number|num\.?|#))?[:\s]+([A-Z0-9][A-Z0-9-]{3,13}[A-Z0-9])\b/gi,
+    group: 1,
+    validate: hasDigit,
+    confidence: 0.85,
+    regions: ['us'],
+  },
+];
+
+/**
+ * Look up a detector by its id
+ */
+export function getDetector(id: string): Detector | undefined {
+  return DETECTORS.find((detector) => detector.id === id);
+}
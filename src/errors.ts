@@ -0,0 +1,61 @@
+/**
+ * Error Messages
+ *
+ * Turns errors from Word into messages an author can act on. Word
+ * rejects a failed sync with an OfficeExtension.Error whose message is
+ * often terse ("GeneralException") and whose code and debug info say
+ * more; anything else keeps its own message.
+ */
+
+// Readable explanations for the error codes Word returns
+const CODE_MESSAGES: Record<string, string> = {
+  AccessDenied: 'Word refused the change. The document may be read-only, protected or restricted for editing.',
+  ActivityLimitReached: 'Word is busy or the request was too large. Wait a moment and try again.',
+  ApiNotFound: 'This version of Word does not support a feature the add-in needs.',
+  ConnectionFailure: 'The connection to Word was lost. Check the network connection and try again.',
+  GeneralException: 'Word could not complete the change. Try again; if it keeps failing, save and reopen the document.',
+  InsertDeleteConflict: 'Part of the document changed while the add-in was working. Try again.',
+  InvalidArgument: 'Word rejected a value the add-in passed to it.',
+  InvalidObjectPath:
+    'Part of the document the add-in was working on no longer exists. It may have been edited or deleted.',
+  InvalidRequestContext: 'The add-in lost track of the document. Try again.',
+  ItemNotFound:
+    'Part of the document the add-in was working on could not be found. It may have been edited or deleted.',
+  NotAllowed:
+    'Word does not allow this change here, for example in a protected section or a content control that cannot be edited.',
+  NotImplemented: 'This version of Word does not support a feature the add-in needs.',
+  PropertyNotLoaded: 'The add-in read part of the document before Word had loaded it.',
+  RequestAborted: 'The request to Word was interrupted. Try again.',
+  RequestPayloadSizeLimitExceeded: 'The document is too large to process in one request. Try a smaller scope.',
+  ResponsePayloadSizeLimitExceeded: 'The document is too large to process in one request. Try a smaller scope.',
+  SearchDialogIsOpen: 'Close the Find and Replace dialog in Word, then try again.',
+  SearchStringInvalidOrTooLong: 'A value was too long for Word to search for.',
+  ValueNotLoaded: 'The add-in read part of the document before Word had loaded it.',
+};
+
+/**
+ * Checks for the error object Word rejects a failed sync with
+ */
+function isOfficeError(error: unknown): error is OfficeExtension.Error {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    typeof (error as OfficeExtension.Error).code === 'string' &&
+    (error as OfficeExtension.Error).name === 'OfficeExtension.Error'
+  );
+}
+
+/**
+ * A readable message for any error, naming where in Word it failed
+ * when that is known
+ */
+export function describeError(error: unknown): string {
+  if (isOfficeError(error)) {
+    const message = CODE_MESSAGES[error.code] ?? (error.message || `Word reported an error (${error.code}).`);
+    const location = error.debugInfo?.errorLocation;
+    return location ? `${message} (${location})` : message;
+  }
+  if (error instanceof Error && error.message) return error.message;
+  if (typeof error === 'string' && error) return error;
+  return 'An unexpected error occurred.';
+}
@@ -0,0 +1,24 @@
+/**
+ * HTML helpers shared by the task pane views
+ */
+
+/**
+ * Escape document or user text before inserting it into markup
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Offer text contents as a file download
+ */
+export function downloadFile(name: string, contents: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,55 @@
+/**
+ * Locale Panel
+ *
+ * Task pane card for choosing the regions whose phone formats and
+ * national identifiers are detected.
+ */
+
+import { loadRegions, Region, REGIONS, saveRegions } from './locales';
+
+/**
+ * Render the regions card into the container. `onChange` runs after the
+ * selection is saved, so cards listing detectors can refresh.
+ */
+export function renderLocalePanel(container: HTMLElement, onChange: () => void): void {
+  const selected = loadRegions();
+
+  container.innerHTML = `
+    <h2>Regions</h2>
+    <form class="rule-form locale-form">
+      <div class="locale-grid">
+        ${(Object.keys(REGIONS) as Region[])
+          .map(
+            (region) => `
+          <label class="option-toggle">
+            <input type="checkbox" name="region" value="${region}" ${selected.includes(region) ? 'checked' : ''} />
+            <span>${REGIONS[region]}</span>
+          </label>
+        `
+          )
+          .join('')}
+      </div>
+      <div class="rule-error" role="alert"></div>
+    </form>
+  `;
+
+  const form = container.querySelector<HTMLFormElement>('.locale-form');
+  if (!form) return;
+  const errorBox = form.querySelector<HTMLElement>('.rule-error');
+
+  form.addEventListener('change', async () => {
+    const regions = [...form.querySelectorAll<HTMLInputElement>('input[name="region"]:checked')].map(
+      (input) => input.value as Region
+    );
+
+    try {
+      await saveRegions(regions);
+      if (errorBox) errorBox.textContent = '';
+      onChange();
+    } catch (error) {
+      if (errorBox) {
+        errorBox.textContent = `Could not save the regions: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  });
+}
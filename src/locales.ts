@@ -0,0 +1,49 @@
+/**
+ * Locales
+ *
+ * The regions whose phone number formats and national identifiers the
+ * add-in looks for. Detectors tied to a region only run when it is
+ * selected; the selection is saved in the document's settings.
+ */
+
+import { getSetting, saveSetting } from './settings';
+
+export type Region = 'us' | 'ca' | 'gb' | 'de' | 'il' | 'in' | 'es';
+
+export const REGIONS: Record<Region, string> = {
+  us: 'United States',
+  ca: 'Canada',
+  gb: 'United Kingdom',
+  de: 'Germany',
+  il: 'Israel',
+  in: 'India',
+  es: 'Spain',
+};
+
+export const DEFAULT_REGIONS: Region[] = ['us'];
+
+// Document settings key the selected regions are stored under
+const SETTINGS_KEY = 'redaction.regions';
+
+/**
+ * Reads the selected regions from the document settings
+ */
+export function loadRegions(): Region[] {
+  const saved = getSetting<Region[]>(SETTINGS_KEY, DEFAULT_REGIONS);
+  return Array.isArray(saved) ? saved.filter((region) => region in REGIONS) : DEFAULT_REGIONS;
+}
+
+/**
+ * Saves the selected regions into the document settings
+ */
+export function saveRegions(regions: Region[]): Promise<void> {
+  return saveSetting(SETTINGS_KEY, regions);
+}
+
+/**
+ * Whether a detector runs for the selected regions; detectors without
+ * regions run everywhere
+ */
+export function isInRegions(detector: { regions?: Region[] }, regions: Region[]): boolean {
+  return !detector.regions || detector.regions.some((region) => regions.includes(region));
+}
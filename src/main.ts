@@ -4,7 +4,57 @@
  */
 
 import './styles.css';
-import { redactDocument, RedactionResult } from './redaction';
+import {
+  redactDocument,
+  retryRedaction,
+  RunStep,
+  RunStepId,
+  scanDocument,
+  selectCandidate,
+  RedactionCandidate,
+  RedactionOptions,
+  RedactionResult,
+} from './redaction';
+import { SanitizeReport } from './sanitize';
+import { describeError } from './errors';
+import {
+  DEFAULT_TRACKING_OPTIONS,
+  HeaderTrackingMode,
+  RedactionTrackingMode,
+  TrackingOutcome,
+  TrackingReport,
+} from './tracking';
+import { DETECTORS } from './detectors';
+import { DEFAULT_THRESHOLD } from './detection';
+import { getActiveDetectors } from './rules';
+import { renderRulesPanel } from './rulesPanel';
+import { renderAllowListPanel } from './allowListPanel';
+import { renderMarkerPanel } from './markerPanel';
+import { renderBannerPanel } from './bannerPanel';
+import { renderLocalePanel } from './localePanel';
+import { isInRegions, loadRegions } from './locales';
+import { renderRecoveryExport, renderRecoveryPanel } from './recoveryPanel';
+import { renderReportExport } from './reportPanel';
+import { renderProgressPanel } from './progressPanel';
+import { renderProfilePanel } from './profilePanel';
+import { verifyDocument } from './verification';
+import { MonitorState, startMonitor, stopMonitor, withMonitorPaused } from './monitor';
+import { renderVerification } from './verifyPanel';
+import { isInProfile, loadActiveProfile } from './profiles';
+import { registerCommands } from './commands';
+import { loadRunDefaults, saveRunDefaults, toRunDefaults } from './runDefaults';
+import { BannerReport, CLASSIFICATION_LEVELS, loadBannerOptions } from './banner';
+import { escapeHtml } from './html';
+import {
+  ContentControlInfo,
+  describeScope,
+  DOCUMENT_SCOPE,
+  isScopeSupported,
+  listContentControls,
+  RedactionScope,
+} from './scope';
+import { STORY_LABELS, StoryKind } from './stories';
+import { PSEUDONYM_MODES, PseudonymEntry, PseudonymMode } from './pseudonyms';
 
 // SVG Icons as template strings
 const ICONS = {
@@ -45,6 +95,43 @@ const ICONS = {
     <line x1="15" y1="9" x2="9" y2="15"/>
     <line x1="9" y1="9" x2="15" y2="15"/>
   </svg>`,
+  card: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+    <rect x="2" y="5" width="20" height="14" rx="2"/>
+    <line x1="2" y1="10" x2="22" y2="10"/>
+  </svg>`,
+  network: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+    <rect x="2" y="2" width="20" height="8" rx="2"/>
+    <rect x="2" y="14" width="20" height="8" rx="2"/>
+    <line x1="6" y1="6" x2="6.01" y2="6"/>
+    <line x1="6" y1="18" x2="6.01" y2="18"/>
+  </svg>`,
+  calendar: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+    <rect x="3" y="4" width="18" height="18" rx="2"/>
+    <line x1="16" y1="2" x2="16" y2="6"/>
+    <line x1="8" y1="2" x2="8" y2="6"/>
+    <line x1="3" y1="10" x2="21" y2="10"/>
+  </svg>`,
+  locate: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+    <circle cx="11" cy="11" r="8"/>
+    <line x1="21" y1="21" x2="16.65" y2="16.65"/>
+  </svg>`,
+};
+
+// Icon shown next to each detector in the info list; others use ICONS.id
+const DETECTOR_ICONS: Record<string, string> = {
+  email: ICONS.email,
+  phone: ICONS.phone,
+  phoneInternational: ICONS.phone,
+  phoneGb: ICONS.phone,
+  phoneDe: ICONS.phone,
+  phoneIl: ICONS.phone,
+  phoneIn: ICONS.phone,
+  phoneEs: ICONS.phone,
+  creditCard: ICONS.card,
+  iban: ICONS.card,
+  ipv4: ICONS.network,
+  ipv6: ICONS.network,
+  dateOfBirth: ICONS.calendar,
 };
 
 /**
@@ -52,6 +139,7 @@ const ICONS = {
  */
 Office.onReady((info) => {
   if (info.host === Office.HostType.Word) {
+    registerCommands();
     initializeApp();
   }
 });
@@ -70,25 +158,95 @@ function initializeApp(): void {
           ${ICONS.shield}
         </div>
         <h1>Document Redaction</h1>
+        <span id="monitor-badge" class="monitor-badge" title="Sensitive data found while monitoring" hidden></span>
         <p>Protect sensitive information with one click</p>
       </header>
 
       <div class="info-card">
         <h2>What will be redacted</h2>
-        <ul class="info-list">
-          <li>
-            <span class="icon">${ICONS.email}</span>
-            <span>Email addresses</span>
-          </li>
-          <li>
-            <span class="icon">${ICONS.phone}</span>
-            <span>Phone numbers</span>
-          </li>
-          <li>
-            <span class="icon">${ICONS.id}</span>
-            <span>Social Security Numbers (full & partial)</span>
-          </li>
-        </ul>
+        <ul id="detector-list" class="info-list"></ul>
+      </div>
+
+      <div id="profile-panel" class="info-card"></div>
+
+      <div id="locale-panel" class="info-card"></div>
+
+      <div id="rules-panel" class="info-card"></div>
+
+      <div id="allow-panel" class="info-card"></div>
+
+      <div id="marker-panel" class="info-card"></div>
+
+      <div id="banner-panel" class="info-card"></div>
+
+      <div id="recovery-panel" class="info-card"></div>
+
+      <div class="info-card">
+        <h2>Options</h2>
+        <div class="marker-row">
+          <span class="marker-name">Scope</span>
+          <select id="scope-select" class="rule-input marker-select">
+            <option value="document">Whole document</option>
+            <option value="selection">Current selection</option>
+          </select>
+        </div>
+        <div class="marker-row">
+          <label class="marker-name" for="threshold-range">Minimum confidence</label>
+          <input type="range" id="threshold-range" class="threshold-range" min="0" max="100" step="5" value="${Math.round(DEFAULT_THRESHOLD * 100)}" />
+          <output id="threshold-value" class="threshold-value" for="threshold-range">${Math.round(DEFAULT_THRESHOLD * 100)}%</output>
+        </div>
+        <label class="option-toggle">
+          <input type="checkbox" id="entities-toggle" />
+          <span>Find names, places and organisations (on-device model)</span>
+        </label>
+        <label class="option-toggle">
+          <input type="checkbox" id="monitor-toggle" />
+          <span>Highlight sensitive data while I type</span>
+        </label>
+        <label class="option-toggle">
+          <input type="checkbox" id="review-toggle" checked />
+          <span>Review matches before redacting</span>
+        </label>
+        <label class="option-toggle">
+          <input type="checkbox" id="clear-properties-toggle" />
+          <span>Clear document properties (author, company, ...)</span>
+        </label>
+        <label class="option-toggle">
+          <input type="checkbox" id="remove-hidden-toggle" />
+          <span>Remove hidden text</span>
+        </label>
+        <div class="marker-row">
+          <span class="marker-name">Redactions</span>
+          <select id="redaction-tracking" class="rule-input marker-select">
+            <option value="clean">Clean (not tracked)</option>
+            <option value="tracked">Tracked</option>
+            <option value="trackedThenAccept">Tracked, then accepted</option>
+          </select>
+        </div>
+        <div class="marker-row">
+          <span class="marker-name">Classification banner</span>
+          <select id="header-tracking" class="rule-input marker-select">
+            <option value="tracked">Tracked</option>
+            <option value="clean">Clean (not tracked)</option>
+          </select>
+        </div>
+        <label class="option-toggle">
+          <input type="checkbox" id="restore-tracking-toggle" />
+          <span>Restore my Track Changes setting afterwards</span>
+        </label>
+        <div class="marker-row">
+          <span class="marker-name">Pseudonyms</span>
+          <select id="pseudonym-mode" class="rule-input marker-select">
+            ${(Object.keys(PSEUDONYM_MODES) as PseudonymMode[])
+              .map(
+                (mode) => `
+              <option value="${mode}">${PSEUDONYM_MODES[mode]}</option>
+            `
+              )
+              .join('')}
+          </select>
+        </div>
+        <input type="password" id="pseudonym-key" class="rule-input" placeholder="Key for keyed-hash pseudonyms" autocomplete="off" hidden />
       </div>
 
       <button id="redact-btn" class="redact-btn">
@@ -97,121 +255,825 @@ function initializeApp(): void {
           <span>Redact Document</span>
         </span>
       </button>
+      <button id="verify-btn" class="secondary-btn verify-btn">Verify Document</button>
 
       <div id="status-container" class="status-container"></div>
-
-      
     </div>
   `;
 
+  // The marker panel lists custom rules, so refresh it when they change
+  const markerPanel = document.getElementById('marker-panel');
+  const refreshMarkerPanel = () => {
+    if (markerPanel) renderMarkerPanel(markerPanel);
+  };
+  refreshMarkerPanel();
+  renderDetectorList();
+
+  const localePanel = document.getElementById('locale-panel');
+  if (localePanel) {
+    renderLocalePanel(localePanel, () => {
+      renderDetectorList();
+      refreshMarkerPanel();
+    });
+  }
+
+  const bannerPanel = document.getElementById('banner-panel');
+  if (bannerPanel) {
+    renderBannerPanel(bannerPanel);
+  }
+
+  // A profile sets the detectors, marker styles, banner and tracking
+  const profilePanel = document.getElementById('profile-panel');
+  if (profilePanel) {
+    renderProfilePanel(profilePanel, () => {
+      renderDetectorList();
+      refreshMarkerPanel();
+      if (bannerPanel) renderBannerPanel(bannerPanel);
+      applyRunDefaults();
+    });
+  }
+
+  const recoveryPanel = document.getElementById('recovery-panel');
+  if (recoveryPanel) {
+    renderRecoveryPanel(recoveryPanel);
+  }
+
+  const rulesPanel = document.getElementById('rules-panel');
+  if (rulesPanel) {
+    renderRulesPanel(rulesPanel, refreshMarkerPanel);
+  }
+
+  const allowPanel = document.getElementById('allow-panel');
+  if (allowPanel) {
+    renderAllowListPanel(allowPanel);
+  }
+
+  const scopeSelect = document.getElementById('scope-select') as HTMLSelectElement | null;
+  if (scopeSelect) {
+    if (isScopeSupported()) {
+      refreshScopeOptions(scopeSelect);
+      scopeSelect.addEventListener('focus', () => refreshScopeOptions(scopeSelect));
+    } else {
+      scopeSelect.disabled = true;
+      scopeSelect.title = 'Redacting part of a document needs a newer version of Word.';
+    }
+  }
+
+  applyRunDefaults();
+
+  const thresholdRange = document.getElementById('threshold-range') as HTMLInputElement | null;
+  const thresholdValue = document.getElementById('threshold-value');
+  thresholdRange?.addEventListener('input', () => {
+    if (thresholdValue) thresholdValue.textContent = `${thresholdRange.value}%`;
+  });
+
+  // The key is only used by keyed-hash pseudonyms
+  const pseudonymMode = document.getElementById('pseudonym-mode') as HTMLSelectElement | null;
+  const pseudonymKey = document.getElementById('pseudonym-key') as HTMLInputElement | null;
+  pseudonymMode?.addEventListener('change', () => {
+    if (pseudonymKey) pseudonymKey.hidden = pseudonymMode.value !== 'hmac';
+  });
+
   // Attach event listener
   const redactBtn = document.getElementById('redact-btn');
   if (redactBtn) {
     redactBtn.addEventListener('click', handleRedactClick);
   }
+  document.getElementById('verify-btn')?.addEventListener('click', handleVerifyClick);
+  document.getElementById('monitor-toggle')?.addEventListener('change', handleMonitorToggle);
+}
+
+/**
+ * List the built-in detectors that run for the selected regions
+ */
+function renderDetectorList(): void {
+  const list = document.getElementById('detector-list');
+  if (!list) return;
+  const regions = loadRegions();
+  const profile = loadActiveProfile();
+  const detectors = DETECTORS.filter((detector) => isInRegions(detector, regions) && isInProfile(detector, profile));
+  list.innerHTML = detectors
+    .map(
+      (detector) => `
+    <li>
+      <span class="icon">${DETECTOR_ICONS[detector.id] ?? ICONS.id}</span>
+      <span>${detector.description}</span>
+    </li>
+  `
+    )
+    .join('');
+}
+
+// Content controls last listed in the scope picker
+let contentControls: ContentControlInfo[] = [];
+
+/**
+ * Reload the content controls offered in the scope picker, keeping the
+ * current choice when it still exists
+ */
+async function refreshScopeOptions(select: HTMLSelectElement): Promise<void> {
+  let latest: ContentControlInfo[];
+  try {
+    latest = await listContentControls();
+  } catch {
+    latest = [];
+  }
+  // Rebuilding the options closes an open dropdown, so only do it on change
+  if (select.options.length > 0 && JSON.stringify(latest) === JSON.stringify(contentControls)) return;
+  contentControls = latest;
+
+  const current = select.value;
+  const tags = [...new Set(contentControls.map((control) => control.tag).filter(Boolean))];
+  select.innerHTML = `
+    <option value="document">Whole document</option>
+    <option value="selection">Current selection</option>
+    ${
+      contentControls.length > 0
+        ? `
+      <optgroup label="Content control">
+        ${contentControls
+          .map(
+            (control) => `
+          <option value="cc:${control.id}">${escapeHtml(control.title || control.tag || `Control ${control.id}`)}</option>
+        `
+          )
+          .join('')}
+      </optgroup>
+    `
+        : ''
+    }
+    ${
+      tags.length > 0
+        ? `
+      <optgroup label="All controls tagged">
+        ${tags.map((tag) => `<option value="tag:${escapeHtml(tag)}">${escapeHtml(tag)}</option>`).join('')}
+      </optgroup>
+    `
+        : ''
+    }
+  `;
+  if ([...select.options].some((option) => option.value === current)) {
+    select.value = current;
+  }
 }
 
 /**
- * Handle the redact button click
+ * Parse the scope picker's value
+ */
+function parseScope(value: string | undefined): RedactionScope {
+  if (value === 'selection') return { kind: 'selection' };
+  if (value?.startsWith('cc:')) return { kind: 'contentControl', id: Number(value.substring(3)) };
+  if (value?.startsWith('tag:')) return { kind: 'tag', tag: value.substring(4) };
+  return DOCUMENT_SCOPE;
+}
+
+/**
+ * Handle the redact button click. In review mode this only scans the
+ * document and lists the matches; nothing is changed until the reviewer
+ * applies the approved ones.
  */
 async function handleRedactClick(): Promise<void> {
   const btn = document.getElementById('redact-btn') as HTMLButtonElement;
+  const reviewToggle = document.getElementById('review-toggle') as HTMLInputElement | null;
   const statusContainer = document.getElementById('status-container');
-  
+
   if (!btn || !statusContainer) return;
 
-  // Show loading state
-  btn.disabled = true;
-  btn.classList.add('loading');
-  btn.innerHTML = `
-    <span class="btn-content">
-      <span class="spinner"></span>
-      <span>Processing...</span>
-    </span>
-  `;
+  setButtonLoading(btn, true);
   statusContainer.innerHTML = '';
+  const progress = renderProgressPanel(statusContainer);
 
   try {
-    const result = await redactDocument();
-    displayResult(result, statusContainer);
+    const options = readOptions();
+    if (reviewToggle?.checked) {
+      const { candidates, skipped } = await scanDocument(options, progress.control);
+      progress.close();
+      if (candidates.length > 0) {
+        displayReview(candidates, statusContainer, options.scope, skipped);
+      } else {
+        displayNothingFound(statusContainer, skipped);
+      }
+    } else {
+      const result = await withMonitorPaused(() => redactDocument(undefined, options, progress.control));
+      progress.close();
+      displayResult(result, statusContainer);
+      await rememberRun(result, options);
+    }
   } catch (error) {
-    displayError(error, statusContainer);
+    progress.close();
+    if (progress.control.signal?.aborted) {
+      displayScanCancelled(statusContainer);
+    } else {
+      displayError(error, statusContainer);
+    }
+  } finally {
+    setButtonLoading(btn, false);
+  }
+}
+
+/**
+ * Keeps the options of a redaction that ran to the end as the defaults
+ * Quick Redact uses. A scan, a cancelled run or a failed one leaves the
+ * previous defaults in place; so does a failure to save them, which
+ * must not hide the result already shown.
+ */
+async function rememberRun(result: RedactionResult, options: RedactionOptions): Promise<void> {
+  if (!result.success || result.cancelled) return;
+  await saveRunDefaults(toRunDefaults(options)).catch(() => undefined);
+}
+
+/**
+ * Read the redaction options from the task pane toggles
+ */
+function readOptions(): RedactionOptions {
+  const isChecked = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.checked ?? false;
+  const selected = (id: string) => (document.getElementById(id) as HTMLSelectElement | null)?.value;
+  return {
+    scope: parseScope(selected('scope-select')),
+    clearProperties: isChecked('clear-properties-toggle'),
+    removeHiddenText: isChecked('remove-hidden-toggle'),
+    tracking: {
+      redactions: (selected('redaction-tracking') ?? DEFAULT_TRACKING_OPTIONS.redactions) as RedactionTrackingMode,
+      header: (selected('header-tracking') ?? DEFAULT_TRACKING_OPTIONS.header) as HeaderTrackingMode,
+      restoreOriginal: isChecked('restore-tracking-toggle'),
+    },
+    banner: loadBannerOptions(),
+    pseudonyms: {
+      mode: (selected('pseudonym-mode') ?? 'number') as PseudonymMode,
+      key: (document.getElementById('pseudonym-key') as HTMLInputElement | null)?.value ?? '',
+    },
+    threshold: Number(selected('threshold-range') ?? DEFAULT_THRESHOLD * 100) / 100,
+    entities: isChecked('entities-toggle'),
+    profile: loadActiveProfile()?.name,
+  };
+}
+
+/**
+ * Handle the verify button click: re-scan the whole document without
+ * changing it and show the checklist
+ */
+async function handleVerifyClick(): Promise<void> {
+  const btn = document.getElementById('verify-btn') as HTMLButtonElement | null;
+  const statusContainer = document.getElementById('status-container');
+  if (!btn || !statusContainer) return;
+
+  btn.disabled = true;
+  statusContainer.innerHTML = '';
+  const progress = renderProgressPanel(statusContainer);
+  try {
+    const { threshold, entities } = readOptions();
+    const result = await verifyDocument({ threshold, entities }, progress.control);
+    progress.close();
+    if (result.success) {
+      renderVerification(statusContainer, result, (candidates) =>
+        displayReview(candidates, statusContainer, DOCUMENT_SCOPE)
+      );
+    } else if (progress.control.signal?.aborted) {
+      displayScanCancelled(statusContainer);
+    } else {
+      displayError(new Error(result.error), statusContainer);
+    }
   } finally {
-    // Reset button
     btn.disabled = false;
-    btn.classList.remove('loading');
-    btn.innerHTML = `
-      <span class="btn-content">
-        <span class="btn-icon">${ICONS.redact}</span>
-        <span>Redact Document</span>
-      </span>
-    `;
   }
 }
 
+/**
+ * Turn live monitoring on or off. Turning it off removes its marks.
+ */
+async function handleMonitorToggle(event: Event): Promise<void> {
+  const toggle = event.target as HTMLInputElement;
+  toggle.disabled = true;
+  try {
+    if (toggle.checked) {
+      await startMonitor({ threshold: () => readOptions().threshold, onUpdate: updateMonitorBadge });
+    } else {
+      await stopMonitor();
+      updateMonitorBadge(null);
+    }
+  } catch (error) {
+    await stopMonitor().catch(() => undefined);
+    updateMonitorBadge({ count: 0, error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    toggle.disabled = false;
+  }
+}
+
+/**
+ * Show the monitor's running count in the header, or hide it when off
+ */
+function updateMonitorBadge(state: MonitorState | null): void {
+  const badge = document.getElementById('monitor-badge');
+  const toggle = document.getElementById('monitor-toggle') as HTMLInputElement | null;
+  if (!badge) return;
+
+  if (state?.error) {
+    // Monitoring has stopped; say why and let the author turn it on again
+    if (toggle) toggle.checked = false;
+    badge.hidden = false;
+    badge.className = 'monitor-badge error';
+    badge.textContent = 'Monitor stopped';
+    badge.title = state.error;
+    return;
+  }
+
+  badge.hidden = state === null;
+  badge.className = `monitor-badge${state && state.count > 0 ? ' found' : ''}`;
+  badge.textContent = state ? `${state.count} sensitive` : '';
+  badge.title = 'Sensitive data found while monitoring';
+}
+
+/**
+ * Set the options to those of the last run, which the ribbon commands use
+ */
+function applyRunDefaults(): void {
+  const defaults = loadRunDefaults();
+  const setChecked = (id: string, checked: boolean) => {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    if (input) input.checked = checked;
+  };
+  const setValue = (id: string, value: string) => {
+    const input = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+    if (input) input.value = value;
+  };
+
+  const threshold = String(Math.round(defaults.threshold * 100));
+  setValue('threshold-range', threshold);
+  const thresholdValue = document.getElementById('threshold-value');
+  if (thresholdValue) thresholdValue.textContent = `${threshold}%`;
+
+  setChecked('entities-toggle', defaults.entities);
+  setChecked('clear-properties-toggle', defaults.clearProperties);
+  setChecked('remove-hidden-toggle', defaults.removeHiddenText);
+  setValue('redaction-tracking', defaults.tracking.redactions);
+  setValue('header-tracking', defaults.tracking.header);
+  setChecked('restore-tracking-toggle', defaults.tracking.restoreOriginal);
+  setValue('pseudonym-mode', defaults.pseudonymMode);
+  const pseudonymKey = document.getElementById('pseudonym-key') as HTMLInputElement | null;
+  if (pseudonymKey) pseudonymKey.hidden = defaults.pseudonymMode !== 'hmac';
+}
+
+/**
+ * Toggle the redact button between its idle and processing states
+ */
+function setButtonLoading(btn: HTMLButtonElement, loading: boolean): void {
+  btn.disabled = loading;
+  btn.classList.toggle('loading', loading);
+  // While busy, the progress panel in the status area shows what is happening
+  const content = loading
+    ? `<span class="btn-icon">${ICONS.redact}</span><span>Working...</span>`
+    : `<span class="btn-icon">${ICONS.redact}</span><span>Redact Document</span>`;
+  btn.innerHTML = `<span class="btn-content">${content}</span>`;
+}
+
+/**
+ * Display the review list of scanned matches. Each match can be
+ * accepted or rejected and located in the document before applying.
+ * `skipped` is the number of matches the allow-list left out.
+ */
+function displayReview(
+  candidates: RedactionCandidate[],
+  container: HTMLElement,
+  scope: RedactionScope,
+  skipped = 0
+): void {
+  container.innerHTML = `
+    <div class="review-card">
+      <div class="review-header">
+        <div class="status-title">Review ${candidates.length} match${candidates.length !== 1 ? 'es' : ''}</div>
+        <div class="status-details">Uncheck false positives, then apply the approved redactions.</div>
+        ${describeSkipped(skipped)}
+      </div>
+      <ul class="review-list">
+        ${candidates
+          .map(
+            (candidate) => `
+          <li class="review-item">
+            <input type="checkbox" class="review-check" data-id="${candidate.id}" checked />
+            <div class="review-match">
+              <span class="review-type">${detectorLabel(candidate.detector)}</span>
+              <span class="review-confidence">${Math.round(candidate.confidence * 100)}%</span>
+              ${candidate.location !== 'body' ? `<span class="review-location">${STORY_LABELS[candidate.location]}</span>` : ''}
+              <span class="review-context">…${escapeHtml(candidate.contextBefore)}<mark>${escapeHtml(candidate.text)}</mark>${escapeHtml(candidate.contextAfter)}…</span>
+            </div>
+            <button class="review-locate" data-id="${candidate.id}" title="Show in document">${ICONS.locate}</button>
+          </li>
+        `
+          )
+          .join('')}
+      </ul>
+      <div class="review-actions">
+        <button id="review-cancel" class="secondary-btn">Cancel</button>
+        <button id="review-apply" class="apply-btn">Redact approved (${candidates.length})</button>
+      </div>
+    </div>
+  `;
+
+  const checkboxes = [...container.querySelectorAll<HTMLInputElement>('.review-check')];
+  const applyBtn = container.querySelector<HTMLButtonElement>('#review-apply');
+  const approved = () =>
+    checkboxes.filter((checkbox) => checkbox.checked).map((checkbox) => candidates[Number(checkbox.dataset.id)]);
+
+  for (const checkbox of checkboxes) {
+    checkbox.addEventListener('change', () => {
+      if (!applyBtn) return;
+      const count = approved().length;
+      applyBtn.textContent = `Redact approved (${count})`;
+      applyBtn.disabled = count === 0;
+    });
+  }
+
+  for (const locateBtn of container.querySelectorAll<HTMLButtonElement>('.review-locate')) {
+    locateBtn.addEventListener('click', () => {
+      // Flag the row rather than replacing the list, so the review isn't lost
+      selectCandidate(candidates[Number(locateBtn.dataset.id)]).catch((error) => {
+        locateBtn.classList.add('missing');
+        locateBtn.title = error instanceof Error ? error.message : 'Match not found';
+      });
+    });
+  }
+
+  container.querySelector('#review-cancel')?.addEventListener('click', () => {
+    container.innerHTML = '';
+  });
+
+  applyBtn?.addEventListener('click', async () => {
+    applyBtn.disabled = true;
+    applyBtn.textContent = 'Redacting...';
+    const progress = renderProgressPanel(container);
+    try {
+      // The candidates came from the scope chosen at scan time
+      const options = { ...readOptions(), scope };
+      const result = await withMonitorPaused(() => redactDocument(approved(), options, progress.control));
+      displayResult({ ...result, skipped }, container);
+      await rememberRun(result, options);
+    } catch (error) {
+      displayError(error, container);
+    }
+  });
+}
+
 /**
  * Display the redaction result
  */
 function displayResult(result: RedactionResult, container: HTMLElement): void {
   if (result.success) {
-    if (result.totalRedacted > 0) {
+    if (result.totalRedacted > 0 || result.cancelled) {
       container.innerHTML = `
-        <div class="status-message success">
-          <span class="status-icon">${ICONS.success}</span>
+        <div class="status-message ${result.cancelled ? 'warning' : 'success'}">
+          <span class="status-icon">${result.cancelled ? ICONS.warning : ICONS.success}</span>
           <div class="status-content">
-            <div class="status-title">Redaction Complete</div>
+            <div class="status-title">${result.cancelled ? 'Redaction Cancelled' : 'Redaction Complete'}</div>
             <div class="status-details">
-              Successfully redacted ${result.totalRedacted} item${result.totalRedacted !== 1 ? 's' : ''}.
-              ${result.trackingEnabled ? 'Changes are being tracked.' : ''}
+              ${
+                result.cancelled
+                  ? `Redacted ${result.totalRedacted} of ${result.totalCandidates ?? result.totalRedacted} matches before stopping. Sanitizing and the banner were skipped.`
+                  : `Successfully redacted ${result.totalRedacted} item${result.totalRedacted !== 1 ? 's' : ''}.`
+              }
             </div>
+            ${result.banner ? describeBanner(result.banner) : ''}
+            ${describeTracking(result.tracking)}
+            <div class="status-details">Scope: ${escapeHtml(describeScope(result.scope, contentControls))}</div>
+            ${describeProfile(result)}
+            <div class="status-details">${describeLocations(result.locationCounts)}</div>
+            ${result.sanitize ? describeSanitize(result.sanitize) : ''}
             <div class="stats">
-              <div class="stat-item">
-                <div class="stat-value">${result.emailsRedacted}</div>
-                <div class="stat-label">Emails</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">${result.phonesRedacted}</div>
-                <div class="stat-label">Phone Numbers</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">${result.ssnsRedacted}</div>
-                <div class="stat-label">SSNs</div>
-              </div>
+              ${getActiveDetectors()
+                .filter((detector) => result.counts[detector.id])
+                .map(
+                  (detector) => `
+                <div class="stat-item">
+                  <div class="stat-value">${result.counts[detector.id]}</div>
+                  <div class="stat-label">${escapeHtml(detector.label)}</div>
+                </div>
+              `
+                )
+                .join('')}
+              ${
+                result.skipped
+                  ? `
+                <div class="stat-item skipped">
+                  <div class="stat-value">${result.skipped}</div>
+                  <div class="stat-label">Skipped (allow-listed)</div>
+                </div>
+              `
+                  : ''
+              }
             </div>
           </div>
         </div>
       `;
     } else {
-      container.innerHTML = `
-        <div class="status-message warning">
-          <span class="status-icon">${ICONS.warning}</span>
-          <div class="status-content">
-            <div class="status-title">No Sensitive Data Found</div>
-            <div class="status-details">
-              The document was scanned but no sensitive information was detected.
-            </div>
-          </div>
-        </div>
-      `;
+      displayNothingFound(container, result.skipped);
+    }
+    const warnings = [
+      ...result.steps
+        .filter((step) => step.status === 'failed')
+        .map((step) => `${STEP_LABELS[step.id]} failed: ${step.error}`),
+      ...(result.sanitize?.warnings ?? []),
+    ];
+    if (warnings.length > 0) {
+      container.insertAdjacentHTML('beforeend', renderWarnings(warnings));
+    }
+    if (result.pseudonyms?.length) {
+      container.insertAdjacentHTML('beforeend', renderPseudonyms(result.pseudonyms));
+    }
+    if (result.recovery) {
+      renderRecoveryExport(container, result.recovery);
+    }
+    if (result.records.length > 0) {
+      renderReportExport(container, result, describeScope(result.scope, contentControls));
     }
   } else {
-    container.innerHTML = `
-      <div class="status-message error">
-        <span class="status-icon">${ICONS.error}</span>
-        <div class="status-content">
-          <div class="status-title">Redaction Failed</div>
-          <div class="status-details">${result.error || 'An unexpected error occurred.'}</div>
+    displayFailure(result, container);
+  }
+}
+
+const STEP_LABELS: Record<RunStepId, string> = {
+  prepare: 'Read the recorded policy and switch Track Changes',
+  scan: 'Scan for sensitive data',
+  redact: 'Replace the matches',
+  remember: 'Save token numbers and fake values for later runs',
+  accept: 'Accept the tracked redactions',
+  sanitize: 'Clear properties and hidden content',
+  banner: 'Add the classification banner',
+  profile: 'Record the policy profile',
+  finish: 'Set Track Changes for later edits',
+};
+
+const STEP_STATUS_LABELS: Record<RunStep['status'], string> = {
+  done: 'Done',
+  failed: 'Failed',
+  skipped: 'Not needed',
+  notRun: 'Not run',
+};
+
+// Step outcomes styled like the verification checklist
+const STEP_CLASSES: Record<RunStep['status'], string> = {
+  done: 'pass',
+  failed: 'fail',
+  skipped: 'skipped',
+  notRun: 'skipped',
+};
+
+/**
+ * Display a failed run: what was redacted before it stopped, what was
+ * not, how each stage went, and a button to retry the rest
+ */
+function displayFailure(result: RedactionResult, container: HTMLElement): void {
+  const remaining = result.remaining;
+  const remainingCounts: Record<string, number> = {};
+  const remainingLocations: Partial<Record<StoryKind, number>> = {};
+  for (const candidate of remaining ?? []) {
+    remainingCounts[candidate.detector] = (remainingCounts[candidate.detector] ?? 0) + 1;
+    remainingLocations[candidate.location] = (remainingLocations[candidate.location] ?? 0) + 1;
+  }
+  const byDetector = (counts: Record<string, number>) =>
+    Object.keys(counts)
+      .map((id) => `${counts[id]} ${detectorLabel(id)}`)
+      .join(', ');
+
+  container.innerHTML = `
+    <div class="status-message error">
+      <span class="status-icon">${ICONS.error}</span>
+      <div class="status-content">
+        <div class="status-title">Redaction Failed</div>
+        <div class="status-details">${escapeHtml(result.error || 'An unexpected error occurred.')}</div>
+        <div class="status-details">
+          ${
+            result.totalRedacted > 0
+              ? `Redacted before the failure: ${byDetector(result.counts)} (${describeLocations(result.locationCounts)}).`
+              : 'Nothing was redacted.'
+          }
+        </div>
+        <div class="status-details">
+          ${
+            remaining === undefined
+              ? 'The run stopped before its matches were known.'
+              : remaining.length > 0
+                ? `Not redacted: ${byDetector(remainingCounts)} (${describeLocations(remainingLocations)}).`
+                : 'Every match was redacted; a later stage failed.'
+          }
+        </div>
+        ${describeTracking(result.tracking)}
+      </div>
+    </div>
+    <ul class="checklist status-followup">
+      ${result.steps
+        .map(
+          (step) => `
+        <li class="check-item ${STEP_CLASSES[step.status]}">
+          <span class="check-status">${STEP_STATUS_LABELS[step.status]}</span>
+          <div class="check-content">
+            <div class="check-label">${STEP_LABELS[step.id]}</div>
+            ${step.error ? `<div class="check-details">${escapeHtml(step.error)}</div>` : ''}
+          </div>
+        </li>
+      `
+        )
+        .join('')}
+    </ul>
+    <button class="secondary-btn retry-btn">Retry remaining</button>
+  `;
+
+  // Tokens already written must stay recoverable
+  if (result.recovery) {
+    renderRecoveryExport(container, result.recovery);
+  }
+
+  const retryBtn = container.querySelector<HTMLButtonElement>('.retry-btn');
+  retryBtn?.addEventListener('click', async () => {
+    retryBtn.disabled = true;
+    const progress = renderProgressPanel(container);
+    try {
+      // Retry under the scope of the failed run, as with the review list
+      const options = { ...readOptions(), scope: result.scope };
+      const retried = await withMonitorPaused(() => retryRedaction(result, options, progress.control));
+      progress.close();
+      displayResult(retried, container);
+      await rememberRun(retried, options);
+    } catch (error) {
+      progress.close();
+      displayError(error, container);
+    }
+  });
+}
+
+/**
+ * Which policy profile the run followed, and the earlier run's if it differs
+ */
+function describeProfile(result: RedactionResult): string {
+  const lines: string[] = [];
+  if (result.profile) lines.push(`Policy: ${escapeHtml(result.profile)}`);
+  if (result.previousProfile && result.previousProfile !== result.profile) {
+    lines.push(`Previously redacted under: ${escapeHtml(result.previousProfile)}`);
+  }
+  return lines.map((line) => `<div class="status-details">${line}</div>`).join('');
+}
+
+/**
+ * How many matches the allow-list left out, if any
+ */
+function describeSkipped(skipped = 0): string {
+  if (skipped === 0) return '';
+  return `<div class="status-details">${skipped} allow-listed value${skipped !== 1 ? 's were' : ' was'} skipped.</div>`;
+}
+
+/**
+ * Display the notice shown when a scan finds no sensitive data
+ */
+function displayNothingFound(container: HTMLElement, skipped = 0): void {
+  container.innerHTML = `
+    <div class="status-message warning">
+      <span class="status-icon">${ICONS.warning}</span>
+      <div class="status-content">
+        <div class="status-title">No Sensitive Data Found</div>
+        <div class="status-details">
+          The document was scanned but no sensitive information was detected.
         </div>
+        ${describeSkipped(skipped)}
       </div>
-    `;
+    </div>
+  `;
+}
+
+/**
+ * Display the notice shown when the user stops a scan before it finishes
+ */
+function displayScanCancelled(container: HTMLElement): void {
+  container.innerHTML = `
+    <div class="status-message warning">
+      <span class="status-icon">${ICONS.warning}</span>
+      <div class="status-content">
+        <div class="status-title">Scan Cancelled</div>
+        <div class="status-details">
+          The scan was stopped before it finished. Nothing in the document was changed.
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Label of a built-in or custom detector, for the review list
+ */
+function detectorLabel(id: string): string {
+  const detector = getActiveDetectors().find((active) => active.id === id);
+  return escapeHtml(detector?.label ?? id);
+}
+
+/**
+ * Summary of where the classification banner was placed
+ */
+function describeBanner(banner: BannerReport): string {
+  const parts = [
+    banner.inserted > 0 ? `added to ${banner.inserted}` : '',
+    banner.updated > 0 ? `updated in ${banner.updated}` : '',
+    banner.removed > 0 ? `removed from ${banner.removed}` : '',
+  ].filter(Boolean);
+  const where =
+    parts.length > 0
+      ? `${parts.join(', ')} header/footer${banner.inserted + banner.updated + banner.removed !== 1 ? 's' : ''}`
+      : 'not placed';
+  return `<div class="status-details">${CLASSIFICATION_LEVELS[banner.level].name} banner ${where}.</div>`;
+}
+
+// How each tracking outcome is described in the result summary
+const TRACKING_OUTCOMES: Record<TrackingOutcome, string> = {
+  tracked: 'tracked',
+  accepted: 'tracked and accepted',
+  untracked: 'not tracked',
+};
+
+/**
+ * Summary of which changes were tracked, and the Track Changes mode
+ * the document was left in
+ */
+function describeTracking(tracking: TrackingReport): string {
+  const lines = tracking.supported
+    ? [
+        `Redactions: ${TRACKING_OUTCOMES[tracking.redactions]}. Header: ${TRACKING_OUTCOMES[tracking.header]}.`,
+        `Track Changes is now ${tracking.finalMode === 'Off' ? 'off' : 'on'}${tracking.finalMode === tracking.originalMode ? ' (as before)' : ''}.`,
+      ]
+    : [
+        'Track Changes is not available in this version of Word (needs WordApi 1.5): neither the redactions nor the header were tracked.',
+      ];
+  if (tracking.note) lines.push(tracking.note);
+  return lines.map((line) => `<div class="status-details">${escapeHtml(line)}</div>`).join('');
+}
+
+/**
+ * Summary of the sanitize stage: properties and hidden text found or cleared
+ */
+function describeSanitize(report: SanitizeReport): string {
+  const lines: string[] = [];
+  if (report.properties.length > 0) {
+    const cleared = report.properties.filter((property) => property.cleared).length;
+    const names = report.properties.map((property) => property.name).join(', ');
+    lines.push(
+      cleared > 0
+        ? `Cleared ${cleared} of ${report.properties.length} document properties (${escapeHtml(names)}).`
+        : `Document properties still set: ${escapeHtml(names)}.`
+    );
+  }
+  if (report.hiddenTextRemoved) {
+    lines.push(`Removed ${report.hiddenTextRanges} hidden text passage${report.hiddenTextRanges !== 1 ? 's' : ''}.`);
   }
+  return lines.map((line) => `<div class="status-details">${line}</div>`).join('');
+}
+
+/**
+ * Warning card listing what may still expose sensitive data
+ */
+function renderWarnings(warnings: string[]): string {
+  return `
+    <div class="status-message warning status-followup">
+      <span class="status-icon">${ICONS.warning}</span>
+      <div class="status-content">
+        <div class="status-title">Check Before Sharing</div>
+        <ul class="status-list">
+          ${warnings.map((warning) => `<li>${escapeHtml(warning)}</li>`).join('')}
+        </ul>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Card listing each pseudonym and the original values it replaced
+ */
+function renderPseudonyms(entries: PseudonymEntry[]): string {
+  return `
+    <div class="info-card status-followup">
+      <h2>Pseudonyms</h2>
+      <ul class="status-list pseudonym-list">
+        ${entries
+          .map(
+            (entry) => `
+          <li><span class="rule-value">${escapeHtml(entry.pseudonym)}</span> ← ${entry.values.map(escapeHtml).join(', ')}</li>
+        `
+          )
+          .join('')}
+      </ul>
+    </div>
+  `;
+}
+
+/**
+ * One-line summary of where redactions were made, e.g. "Body 4 · Headers 1"
+ */
+function describeLocations(locationCounts: Partial<Record<StoryKind, number>>): string {
+  return (Object.keys(STORY_LABELS) as StoryKind[])
+    .filter((kind) => locationCounts[kind])
+    .map((kind) => `${STORY_LABELS[kind]} ${locationCounts[kind]}`)
+    .join(' · ');
 }
 
 /**
  * Display an error message
  */
 function displayError(error: unknown, container: HTMLElement): void {
-  const message = error instanceof Error ? error.message : 'An unexpected error occurred.';
+  const message = escapeHtml(describeError(error));
   container.innerHTML = `
     <div class="status-message error">
       <span class="status-icon">${ICONS.error}</span>
@@ -222,4 +1084,3 @@ function displayError(error: unknown, container: HTMLElement): void {
     </div>
   `;
 }
-
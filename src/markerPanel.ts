@@ -0,0 +1,71 @@
+/**
+ * Marker Style Panel
+ *
+ * Task pane card for choosing the redaction marker style, as a default
+ * and per detector.
+ */
+
+import { escapeHtml } from './html';
+import { DEFAULT_STYLE_KEY, loadMarkerStyles, MARKER_STRATEGIES, MarkerStyle, saveMarkerStyles } from './markers';
+import { getActiveDetectors } from './rules';
+
+/**
+ * Render the marker style card into the container
+ */
+export function renderMarkerPanel(container: HTMLElement): void {
+  const styles = loadMarkerStyles();
+  const options = (selected: MarkerStyle | undefined) =>
+    MARKER_STRATEGIES.map(
+      (strategy) => `
+    <option value="${strategy.id}" ${strategy.id === selected ? 'selected' : ''}>${escapeHtml(strategy.name)}</option>
+  `
+    ).join('');
+
+  container.innerHTML = `
+    <h2>Marker style</h2>
+    <div class="marker-row">
+      <span class="marker-name">All detectors</span>
+      <select class="rule-input marker-select" data-key="${DEFAULT_STYLE_KEY}">
+        ${options(styles[DEFAULT_STYLE_KEY] ?? 'redacted')}
+      </select>
+    </div>
+    <details class="marker-details">
+      <summary>Per detector</summary>
+      ${getActiveDetectors()
+        .map(
+          (detector) => `
+        <div class="marker-row">
+          <span class="marker-name">${escapeHtml(detector.label)}</span>
+          <select class="rule-input marker-select" data-key="${escapeHtml(detector.id)}">
+            <option value="">Same as all</option>
+            ${options(styles[detector.id])}
+          </select>
+        </div>
+      `
+        )
+        .join('')}
+    </details>
+    <div class="rule-error" role="alert"></div>
+  `;
+
+  for (const select of container.querySelectorAll<HTMLSelectElement>('.marker-select')) {
+    select.addEventListener('change', async () => {
+      const key = select.dataset.key ?? DEFAULT_STYLE_KEY;
+      const updated = { ...loadMarkerStyles() };
+      if (select.value) {
+        updated[key] = select.value as MarkerStyle;
+      } else {
+        delete updated[key];
+      }
+
+      try {
+        await saveMarkerStyles(updated);
+      } catch (error) {
+        const errorBox = container.querySelector<HTMLElement>('.rule-error');
+        if (errorBox) {
+          errorBox.textContent = `Could not save marker styles: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+    });
+  }
+}
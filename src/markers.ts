@@ -0,0 +1,149 @@
+/**
+ * Redaction Markers
+ *
+ * The strategies for what replaces a redacted value, and the formatting
+ * applied to the inserted marker. Strategies are chosen per detector in
+ * the task pane and stored in the document settings.
+ */
+
+import { getSetting, saveSetting } from './settings';
+
+export type MarkerStyle = 'redacted' | 'label' | 'blackBox' | 'mask' | 'partial' | 'token' | 'pseudonym';
+
+/**
+ * Formatting applied to an inserted marker; unset properties keep the
+ * formatting of the text it replaced
+ */
+export interface MarkerFormat {
+  highlightColor?: string;
+  fontColor?: string;
+}
+
+interface MarkerStrategy {
+  id: MarkerStyle;
+  /** Name shown in the task pane */
+  name: string;
+  format: MarkerFormat;
+}
+
+export const MARKER_STRATEGIES: MarkerStrategy[] = [
+  { id: 'redacted', name: '[REDACTED]', format: {} },
+  { id: 'label', name: 'Typed label, e.g. [EMAIL]', format: { highlightColor: '#D9D9D9' } },
+  { id: 'blackBox', name: 'Black box (original length)', format: { highlightColor: '#000000', fontColor: '#000000' } },
+  { id: 'mask', name: 'Fixed-length mask (████████)', format: {} },
+  { id: 'partial', name: 'Partial (keep last 4 / domain)', format: {} },
+  { id: 'token', name: 'Reversible token, e.g. [EMAIL-0003]', format: {} },
+  { id: 'pseudonym', name: 'Pseudonym (same value, same placeholder)', format: {} },
+];
+
+// Redaction marker
+const REDACTION_MARKER = '[REDACTED]';
+
+// Mask character and the length of fixed masks, which hide the
+// original value's length
+export const MASK_CHAR = '█';
+const MASK_LENGTH = 8;
+
+// Number of trailing digits or letters kept by partial masking
+const PARTIAL_KEEP = 4;
+
+// Largest number of trailing characters a report preview leaves visible;
+// short values keep fewer so the preview never gives the value away
+const PREVIEW_KEEP = 4;
+
+// Document settings key for the per-detector marker styles
+const SETTINGS_KEY = 'redaction.markerStyles';
+
+// Key in the stored styles used for detectors without their own style
+export const DEFAULT_STYLE_KEY = '*';
+
+/**
+ * Builds the text that replaces a value under the given style
+ *
+ * - redacted: [REDACTED]
+ * - label:    [EMAIL], [SSN], ... from the detector's tag
+ * - blackBox: one character per original character; the formatting
+ *             paints it as a solid block
+ * - mask:     ████████ regardless of the original length
+ * - partial:  emails keep their domain (███@example.com); other values
+ *             keep their last 4 letters or digits and separators
+ *             ((███) ███-4567)
+ * - token:    numbered tokens are issued per run by the token issuer
+ *             (recovery.ts); on its own this gives the typed label
+ * - pseudonym: assigned per run from the normalized values
+ *             (pseudonyms.ts); on its own this gives the typed label
+ */
+export function buildMarker(style: MarkerStyle, value: string, tag: string): string {
+  switch (style) {
+    case 'label':
+    case 'token':
+    case 'pseudonym':
+      return `[${tag}]`;
+    case 'blackBox':
+      return 'X'.repeat(value.length);
+    case 'mask':
+      return MASK_CHAR.repeat(MASK_LENGTH);
+    case 'partial':
+      return partialMask(value);
+    default:
+      return REDACTION_MARKER;
+  }
+}
+
+/**
+ * Masks all but the last `keep` letters or digits of a value, or all
+ * but the domain of an email
+ */
+export function partialMask(value: string, keep = PARTIAL_KEEP): string {
+  const at = value.lastIndexOf('@');
+  if (at > 0) {
+    return MASK_CHAR.repeat(3) + value.substring(at);
+  }
+
+  let kept = 0;
+  return [...value]
+    .reverse()
+    .map((char) => {
+      if (!/[A-Za-z0-9]/.test(char)) return char;
+      return kept++ < keep ? char : MASK_CHAR;
+    })
+    .reverse()
+    .join('');
+}
+
+/**
+ * Masked form of a redacted value for reports: at most a third of its
+ * letters and digits stay visible, emails keep only their domain
+ */
+export function maskedPreview(value: string): string {
+  const visible = Math.min(PREVIEW_KEEP, Math.floor(value.replace(/[^A-Za-z0-9]/g, '').length / 3));
+  return partialMask(value, visible);
+}
+
+/**
+ * Formatting for the inserted marker of a style
+ */
+export function getMarkerFormat(style: MarkerStyle): MarkerFormat {
+  return MARKER_STRATEGIES.find((strategy) => strategy.id === style)?.format ?? {};
+}
+
+/**
+ * Reads the saved styles, keyed by detector id plus DEFAULT_STYLE_KEY
+ */
+export function loadMarkerStyles(): Record<string, MarkerStyle> {
+  return getSetting<Record<string, MarkerStyle>>(SETTINGS_KEY, {});
+}
+
+/**
+ * Saves the per-detector styles into the document settings
+ */
+export function saveMarkerStyles(styles: Record<string, MarkerStyle>): Promise<void> {
+  return saveSetting(SETTINGS_KEY, styles);
+}
+
+/**
+ * The style to use for a detector: its own, else the default, else [REDACTED]
+ */
+export function resolveMarkerStyle(styles: Record<string, MarkerStyle>, detectorId: string): MarkerStyle {
+  return styles[detectorId] ?? styles[DEFAULT_STYLE_KEY] ?? 'redacted';
+}
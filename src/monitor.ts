@@ -0,0 +1,384 @@
+/**
+ * Live Monitor
+ *
+ * Marks sensitive data in the document body while the author types.
+ * Paragraphs are rescanned with the active detectors when Word reports a
+ * change (WordApi 1.6), or on a timer otherwise; only paragraphs whose
+ * text changed are scanned again. Matches are underlined with critique
+ * annotations where Word has them (WordApi 1.7), which are not part of
+ * the document; older versions get a highlight instead, which is
+ * formatting and is removed again when monitoring stops. Highlights are
+ * written with Track Changes paused, so they never show up as tracked
+ * formatting changes. The text itself is never changed.
+ *
+ * Every request of a session goes through one request context, kept
+ * alive by a tracked object, so the event handlers and the highlighted
+ * ranges stay valid between scans.
+ */
+
+import { createAllowFilter } from './allowList';
+import { detect, Match } from './detection';
+import { escapeSearchText, MAX_SEARCH_LENGTH } from './redaction';
+import { getActiveDetectors } from './rules';
+import { isTrackChangesSupported, readTrackingMode, setTracking } from './tracking';
+
+/**
+ * What the monitor currently sees
+ */
+export interface MonitorState {
+  /** Matches across the body */
+  count: number;
+  /** Why monitoring stopped, if it failed */
+  error?: string;
+}
+
+export interface MonitorOptions {
+  /** Minimum confidence, read on every scan so changes apply at once */
+  threshold: () => number;
+  onUpdate: (state: MonitorState) => void;
+}
+
+interface ParagraphState {
+  text: string;
+  /** Matched texts */
+  matches: string[];
+  /** Ranges the highlight fallback marked, tracked in the session's context */
+  highlights: Word.Range[];
+}
+
+interface MonitorSession {
+  options: MonitorOptions;
+  /** Tracked object whose context every request of the session uses */
+  anchor?: Word.Body;
+  /** How matches are shown: annotations, or highlights as a fallback */
+  annotate: boolean;
+  /** Paragraphs are keyed by their id where Word has ids, else by text */
+  useIds: boolean;
+  paragraphs: Map<string, ParagraphState>;
+  events: OfficeExtension.EventHandlerResult<Word.ParagraphChangedEventArgs>[];
+  timer?: ReturnType<typeof setTimeout>;
+  /** The scan running now; changes meanwhile are picked up by the next one */
+  active?: Promise<void>;
+  pending: boolean;
+}
+
+// Delay after the last reported change before rescanning, so a burst of
+// typing costs one scan
+const DEBOUNCE_MS = 600;
+
+// Interval between scans when Word cannot report changes
+const POLL_INTERVAL_MS = 3000;
+
+// Fallback highlight. Word snaps highlights to its palette, so the colour
+// can't tell the monitor's highlights from the author's; the monitor
+// remembers the ranges it highlighted instead.
+const HIGHLIGHT_COLOR = 'Yellow';
+
+let session: MonitorSession | null = null;
+
+/**
+ * Check if Word reports paragraph changes and paragraph ids (1.6+)
+ */
+function isChangeEventsSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.6');
+}
+
+/**
+ * Check if Word supports critique annotations (1.7+)
+ */
+function isAnnotationsSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.7');
+}
+
+export function isMonitoring(): boolean {
+  return session !== null;
+}
+
+/**
+ * Runs a batch in the session's request context
+ */
+function runInSession<T>(current: MonitorSession, batch: (context: Word.RequestContext) => Promise<T>): Promise<T> {
+  return current.anchor ? Word.run(current.anchor, batch) : Word.run(batch);
+}
+
+/**
+ * Starts monitoring: marks what the body holds now, then follows changes
+ */
+export async function startMonitor(options: MonitorOptions): Promise<void> {
+  if (session) return;
+
+  const current: MonitorSession = {
+    options,
+    annotate: isAnnotationsSupported(),
+    useIds: isChangeEventsSupported(),
+    paragraphs: new Map(),
+    events: [],
+    pending: false,
+  };
+  session = current;
+
+  await Word.run(async (context) => {
+    current.anchor = context.document.body;
+    context.trackedObjects.add(current.anchor);
+    if (isChangeEventsSupported()) {
+      const onChange = async () => scheduleScan(current, DEBOUNCE_MS);
+      current.events = [
+        context.document.onParagraphAdded.add(onChange),
+        context.document.onParagraphChanged.add(onChange),
+        context.document.onParagraphDeleted.add(onChange),
+      ] as OfficeExtension.EventHandlerResult<Word.ParagraphChangedEventArgs>[];
+    }
+    await context.sync();
+  });
+  await scan(current);
+}
+
+/**
+ * Stops monitoring and removes every mark it made. A handler that can't
+ * be removed doesn't keep the others or the marks from being removed.
+ */
+export async function stopMonitor(): Promise<void> {
+  const current = session;
+  if (!current) return;
+  session = null;
+  clearTimeout(current.timer);
+  await current.active?.catch(() => undefined);
+
+  await runInSession(current, async (context) => {
+    for (const handler of current.events) {
+      try {
+        handler.remove();
+        await context.sync();
+      } catch {
+        // The handler is gone with its document; nothing is left to remove
+      }
+    }
+
+    const states = [...current.paragraphs.values()];
+    if (current.annotate) {
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load('items');
+      await context.sync();
+      await clearAnnotations(context, paragraphs.items);
+    } else {
+      await withTrackingPaused(context, () => clearHighlights(context, states));
+    }
+    if (current.anchor) context.trackedObjects.remove(current.anchor);
+    await context.sync();
+  });
+}
+
+/**
+ * Runs a task with monitoring paused and its marks removed, so a
+ * redaction neither sees nor copies them, then starts it again
+ */
+export async function withMonitorPaused<T>(task: () => Promise<T>): Promise<T> {
+  const options = session?.options;
+  if (!options) return task();
+
+  try {
+    await stopMonitor();
+    return await task();
+  } finally {
+    await startMonitor(options).catch((error: unknown) => {
+      options.onUpdate({ count: 0, error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+}
+
+function scheduleScan(current: MonitorSession, delay: number): void {
+  clearTimeout(current.timer);
+  current.timer = setTimeout(() => {
+    scan(current).catch(async (error: unknown) => {
+      // A failed scan stops the monitor rather than leaving stale marks
+      if (session === current) await stopMonitor().catch(() => undefined);
+      current.options.onUpdate({ count: 0, error: error instanceof Error ? error.message : String(error) });
+    });
+  }, delay);
+}
+
+/**
+ * The key a paragraph's state is kept under: its id, or without ids its
+ * text, numbered among paragraphs with the same text. An index would
+ * point at a different paragraph once one is inserted above it.
+ */
+function paragraphKey(current: MonitorSession, paragraph: Word.Paragraph, repeats: Map<string, number>): string {
+  if (current.useIds) return paragraph.uniqueLocalId;
+  const repeat = repeats.get(paragraph.text) ?? 0;
+  repeats.set(paragraph.text, repeat + 1);
+  return `${repeat}:${paragraph.text}`;
+}
+
+/**
+ * Rescans the paragraphs whose text changed and updates their marks
+ */
+async function scan(current: MonitorSession): Promise<void> {
+  if (session !== current) return;
+  if (current.active) {
+    current.pending = true;
+    return;
+  }
+
+  current.active = runInSession(current, async (context) => {
+    const paragraphs = context.document.body.paragraphs;
+    paragraphs.load(current.useIds ? 'items/text,items/uniqueLocalId' : 'items/text');
+    await context.sync();
+
+    const detectors = getActiveDetectors();
+    const threshold = current.options.threshold();
+    const allow = createAllowFilter();
+    const repeats = new Map<string, number>();
+    const seen = new Set<string>();
+    const replaced: ParagraphState[] = [];
+    const changed: { key: string; paragraph: Word.Paragraph; found: Match[] }[] = [];
+
+    for (const paragraph of paragraphs.items) {
+      const key = paragraphKey(current, paragraph, repeats);
+      seen.add(key);
+      const previous = current.paragraphs.get(key);
+      if (previous?.text === paragraph.text) continue;
+      if (previous) replaced.push(previous);
+      changed.push({ key, paragraph, found: detect(paragraph.text, detectors, threshold, [], allow) });
+    }
+    for (const [key, state] of current.paragraphs) {
+      if (seen.has(key)) continue;
+      replaced.push(state);
+      current.paragraphs.delete(key);
+    }
+
+    if (current.annotate) {
+      await clearAnnotations(
+        context,
+        changed.map((entry) => entry.paragraph)
+      );
+      for (const { paragraph, found } of changed) {
+        if (found.length === 0) continue;
+        paragraph.insertAnnotations({
+          critiques: found.map((match) => ({
+            colorScheme: Word.CritiqueColorScheme.red,
+            start: match.offset,
+            length: match.text.length,
+          })),
+        });
+      }
+      await context.sync();
+      for (const { key, paragraph, found } of changed) {
+        current.paragraphs.set(key, {
+          text: paragraph.text,
+          matches: found.map((match) => match.text),
+          highlights: [],
+        });
+      }
+    } else if (changed.length > 0 || replaced.length > 0) {
+      await withTrackingPaused(context, async () => {
+        await clearHighlights(context, replaced);
+        for (const { key, paragraph, found } of changed) {
+          const highlights = await highlight(context, paragraph, found);
+          current.paragraphs.set(key, { text: paragraph.text, matches: found.map((match) => match.text), highlights });
+        }
+      });
+    }
+  });
+
+  try {
+    await current.active;
+    const count = [...current.paragraphs.values()].reduce((sum, state) => sum + state.matches.length, 0);
+    if (session === current) current.options.onUpdate({ count });
+  } finally {
+    current.active = undefined;
+  }
+
+  if (session !== current) return;
+  if (current.pending) {
+    current.pending = false;
+    scheduleScan(current, 0);
+  } else if (!current.useIds) {
+    scheduleScan(current, POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Removes every annotation from the given paragraphs
+ */
+async function clearAnnotations(context: Word.RequestContext, paragraphs: Word.Paragraph[]): Promise<void> {
+  const collections = paragraphs.map((paragraph) => {
+    const annotations = paragraph.getAnnotations();
+    annotations.load('items');
+    return annotations;
+  });
+  await context.sync();
+  collections.flatMap((annotations) => annotations.items).forEach((annotation) => annotation.delete());
+  await context.sync();
+}
+
+/**
+ * Runs highlight writes with Track Changes off, then turns it back to
+ * the author's mode, so the highlights aren't recorded as revisions
+ */
+async function withTrackingPaused<T>(context: Word.RequestContext, write: () => Promise<T>): Promise<T> {
+  if (!isTrackChangesSupported()) return write();
+  const mode = await readTrackingMode(context);
+  if (mode === Word.ChangeTrackingMode.off) return write();
+
+  await setTracking(context, false);
+  try {
+    return await write();
+  } finally {
+    context.document.changeTrackingMode = mode as Word.ChangeTrackingMode;
+    await context.sync();
+  }
+}
+
+/**
+ * Removes a range's highlight. Word takes null for no highlight, which
+ * the typings leave out of the property's type.
+ */
+function removeHighlight(range: Word.Range): void {
+  const font: { highlightColor: string | null } = range.font;
+  font.highlightColor = null;
+}
+
+/**
+ * Removes the highlights the monitor put on the given paragraphs and
+ * stops tracking their ranges
+ */
+async function clearHighlights(context: Word.RequestContext, states: ParagraphState[]): Promise<void> {
+  const ranges = states.flatMap((state) => state.highlights);
+  if (ranges.length === 0) return;
+  for (const range of ranges) {
+    removeHighlight(range);
+    context.trackedObjects.remove(range);
+  }
+  await context.sync();
+}
+
+/**
+ * Highlights each match in the paragraph, leaving text the author
+ * highlighted alone and matches too long for Word's search. Returns the
+ * ranges it highlighted, tracked so they can be cleared in a later
+ * request.
+ */
+async function highlight(
+  context: Word.RequestContext,
+  paragraph: Word.Paragraph,
+  found: Match[]
+): Promise<Word.Range[]> {
+  if (found.length === 0) return [];
+  const texts = [...new Set(found.map((match) => escapeSearchText(match.text)))];
+  const searches = texts
+    .filter((text) => text.length <= MAX_SEARCH_LENGTH)
+    .map((text) => {
+      const results = paragraph.search(text, { matchCase: true });
+      results.load('items/font/highlightColor');
+      return results;
+    });
+  await context.sync();
+
+  const highlighted = searches.flatMap((results) => results.items).filter((range) => !range.font.highlightColor);
+  for (const range of highlighted) {
+    range.font.highlightColor = HIGHLIGHT_COLOR;
+    context.trackedObjects.add(range);
+  }
+  await context.sync();
+  return highlighted;
+}
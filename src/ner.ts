@@ -0,0 +1,134 @@
+/**
+ * Named Entities
+ *
+ * Optional detection of person names, places and organisations with a
+ * small token-classification model (bert-base-NER) run on the device in
+ * a Web Worker, so the task pane stays responsive. The model is served
+ * with the add-in and never fetched from the internet; run
+ * `npm run fetch:model` once to put it in public/models.
+ */
+
+import { Match } from './detection';
+import { Detector } from './detectors';
+import { RunControl } from './progress';
+
+export type EntityType = 'person' | 'location' | 'organization';
+
+/**
+ * Message asking the worker for the entities in each text, or to stop
+ * working on an earlier request
+ */
+export type EntityRequest = { id: number; texts: string[] } | { id: number; cancel: true };
+
+/**
+ * The worker's progress through a request's texts, then its answer:
+ * matches for each requested text, in order
+ */
+export type EntityResponse =
+  { id: number; done: number; total: number } | { id: number; matches: Match[][] } | { id: number; error: string };
+
+/**
+ * Detectors the entity model reports under. They have no pattern; their
+ * matches come from findEntities and join the regex matches in detect(),
+ * carrying the model's own score rather than `confidence`.
+ */
+export const ENTITY_DETECTORS: Detector[] = [
+  {
+    id: 'person',
+    label: 'Names',
+    description: 'Person names (on-device model)',
+    tag: 'NAME',
+    confidence: 0,
+  },
+  {
+    id: 'location',
+    label: 'Places',
+    description: 'Addresses and places (on-device model)',
+    tag: 'ADDRESS',
+    confidence: 0,
+  },
+  {
+    id: 'organization',
+    label: 'Organisations',
+    description: 'Organisations (on-device model)',
+    tag: 'ORG',
+    confidence: 0,
+  },
+];
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+interface PendingRequest {
+  resolve: (matches: Match[][]) => void;
+  reject: (error: Error) => void;
+  control: RunControl;
+}
+
+const pending = new Map<number, PendingRequest>();
+
+/**
+ * Starts the worker on first use. The model loads inside it on the first
+ * request and stays loaded for later scans.
+ */
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./ner.worker.ts', import.meta.url), { type: 'module' });
+  worker.addEventListener('message', (event: MessageEvent<EntityResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    if ('done' in event.data) {
+      request.control.onProgress?.({ stage: 'entities', done: event.data.done, total: event.data.total });
+      return;
+    }
+    pending.delete(event.data.id);
+    if ('error' in event.data) {
+      request.reject(new Error(event.data.error));
+    } else {
+      request.resolve(event.data.matches);
+    }
+  });
+  worker.addEventListener('error', (event) => {
+    // A worker that failed to start cannot answer; fail what is waiting
+    // and start a fresh one next time
+    for (const request of pending.values()) {
+      request.reject(new Error(`The entity model stopped: ${event.message || 'unknown error'}`));
+    }
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  });
+  return worker;
+}
+
+/**
+ * Finds the names, places and organisations in each text. Offsets in the
+ * returned matches are relative to their text. Cancelling rejects with
+ * the signal's reason and tells the worker to stop after its batch.
+ */
+export function findEntities(texts: string[], control: RunControl = {}): Promise<Match[][]> {
+  if (texts.length === 0) return Promise.resolve([]);
+
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    const { signal } = control;
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal?.addEventListener(
+      'abort',
+      () => {
+        if (!pending.delete(id)) return;
+        reject(signal.reason);
+        const cancel: EntityRequest = { id, cancel: true };
+        worker?.postMessage(cancel);
+      },
+      { once: true }
+    );
+
+    pending.set(id, { resolve, reject, control });
+    const request: EntityRequest = { id, texts };
+    getWorker().postMessage(request);
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Entity Model Worker
+ *
+ * Runs the token-classification model off the task pane's thread. Each
+ * text is split into chunks the model can take, every token is aligned
+ * back to its characters, and B-/I- tagged tokens are grouped into
+ * entity spans with the model's mean score as their confidence.
+ */
+
+import { env, pipeline, TokenClassificationPipeline } from '@huggingface/transformers';
+import { Match } from './detection';
+import { EntityRequest, EntityResponse, EntityType } from './ner';
+
+const MODEL = 'Xenova/bert-base-NER';
+
+// The model and the ONNX runtime are served with the add-in; nothing is
+// ever downloaded at run time
+env.allowRemoteModels = false;
+env.allowLocalModels = true;
+env.localModelPath = `${import.meta.env.BASE_URL}models/`;
+if (env.backends.onnx.wasm) {
+  env.backends.onnx.wasm.wasmPaths = `${import.meta.env.BASE_URL}ort/`;
+}
+
+// Model labels we redact; MISC (nationalities, events, ...) is left alone
+const ENTITY_TYPES: Record<string, EntityType> = {
+  PER: 'person',
+  LOC: 'location',
+  ORG: 'organization',
+};
+
+// Characters per chunk, well below the model's 512-token limit
+const CHUNK_LENGTH = 1000;
+
+// Chunks sent to the model at once
+const BATCH_SIZE = 8;
+
+/**
+ * A token of the model's output with its place in the text
+ */
+interface AlignedToken {
+  label: string;
+  score: number;
+  start: number;
+  end: number;
+  /** Continues the previous token's word ("##" word pieces) */
+  continuation: boolean;
+}
+
+let classifier: Promise<TokenClassificationPipeline> | null = null;
+
+function loadClassifier(): Promise<TokenClassificationPipeline> {
+  classifier ??= pipeline('token-classification', MODEL, { dtype: 'q8', device: 'wasm' }).catch((error: unknown) => {
+    classifier = null;
+    throw new Error(
+      `The entity model could not be loaded (${error instanceof Error ? error.message : String(error)}). ` +
+        'Run "npm run fetch:model" and rebuild the add-in.'
+    );
+  }) as Promise<TokenClassificationPipeline>;
+  return classifier;
+}
+
+/**
+ * Splits a text into chunks of at most CHUNK_LENGTH characters, at
+ * sentence ends or spaces where possible
+ */
+function chunkText(text: string): { offset: number; text: string }[] {
+  const chunks: { offset: number; text: string }[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + CHUNK_LENGTH, text.length);
+    if (end < text.length) {
+      const window = text.substring(start, end);
+      const sentenceEnd = window.search(/[.!?]\s[^.!?]*$/);
+      const space = window.lastIndexOf(' ');
+      if (sentenceEnd > 0) end = start + sentenceEnd + 1;
+      else if (space > 0) end = start + space;
+    }
+    chunks.push({ offset: start, text: text.substring(start, end) });
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * Finds each token's characters by walking the text in token order.
+ * Tokens that cannot be found (e.g. [UNK]) are skipped.
+ */
+function alignTokens(text: string, tokens: { entity: string; score: number; word: string }[]): AlignedToken[] {
+  const aligned: AlignedToken[] = [];
+  let cursor = 0;
+  for (const token of tokens) {
+    const continuation = token.word.startsWith('##');
+    const piece = continuation ? token.word.substring(2) : token.word;
+    const start = text.indexOf(piece, cursor);
+    if (!piece || start === -1) continue;
+
+    aligned.push({ label: token.entity, score: token.score, start, end: start + piece.length, continuation });
+    cursor = start + piece.length;
+  }
+  return aligned;
+}
+
+/**
+ * Groups aligned tokens into entities: a B- tag opens an entity, I- tags
+ * of the same type and the rest of a word's pieces extend it
+ */
+function groupTokens(text: string, tokens: AlignedToken[]): Match[] {
+  const entities: Match[] = [];
+  let open: { type: EntityType; start: number; end: number; scores: number[] } | null = null;
+
+  const close = () => {
+    if (open) {
+      entities.push({
+        detector: open.type,
+        text: text.substring(open.start, open.end),
+        offset: open.start,
+        confidence: open.scores.reduce((sum, score) => sum + score, 0) / open.scores.length,
+      });
+    }
+    open = null;
+  };
+
+  for (const token of tokens) {
+    const [prefix, label] = token.label.includes('-') ? token.label.split('-') : ['I', token.label];
+    const type = ENTITY_TYPES[label];
+
+    if (open && (token.continuation || (prefix === 'I' && type === open.type))) {
+      open.end = token.end;
+      open.scores.push(token.score);
+    } else {
+      close();
+      if (type) open = { type, start: token.start, end: token.end, scores: [token.score] };
+    }
+  }
+  close();
+
+  return mergeAddresses(text, entities);
+}
+
+/**
+ * Joins places separated only by a comma ("Springfield, Illinois") and
+ * takes in a house number just before a place ("221B Baker Street")
+ */
+function mergeAddresses(text: string, entities: Match[]): Match[] {
+  const merged: Match[] = [];
+  for (const entity of entities) {
+    const last = merged[merged.length - 1];
+    const between = last ? text.substring(last.offset + last.text.length, entity.offset) : '';
+    if (last && last.detector === 'location' && entity.detector === 'location' && /^,?\s+$/.test(between)) {
+      last.text = text.substring(last.offset, entity.offset + entity.text.length);
+      last.confidence = Math.min(last.confidence, entity.confidence);
+      continue;
+    }
+
+    if (entity.detector === 'location') {
+      const houseNumber = /\b\d{1,5}[A-Za-z]?\s+$/.exec(text.substring(Math.max(0, entity.offset - 10), entity.offset));
+      if (houseNumber) {
+        entity.offset -= houseNumber[0].length;
+        entity.text = text.substring(entity.offset, entity.offset + houseNumber[0].length + entity.text.length);
+      }
+    }
+    merged.push(entity);
+  }
+  return merged;
+}
+
+// Requests the task pane no longer waits for
+const cancelled = new Set<number>();
+
+async function findEntities(id: number, texts: string[]): Promise<Match[][]> {
+  const model = await loadClassifier();
+  const chunks = texts.flatMap((text, index) => chunkText(text).map((chunk) => ({ ...chunk, index })));
+  const results: Match[][] = texts.map(() => []);
+
+  for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+    if (cancelled.has(id)) throw new Error('Cancelled');
+    post({ id, done: i, total: chunks.length });
+
+    const batch = chunks.slice(i, i + BATCH_SIZE);
+    const outputs = await model(
+      batch.map((chunk) => chunk.text),
+      { ignore_labels: [] }
+    );
+    batch.forEach((chunk, j) => {
+      const entities = groupTokens(chunk.text, alignTokens(chunk.text, outputs[j]));
+      results[chunk.index].push(...entities.map((entity) => ({ ...entity, offset: entity.offset + chunk.offset })));
+    });
+  }
+
+  return results;
+}
+
+function post(response: EntityResponse): void {
+  self.postMessage(response);
+}
+
+self.addEventListener('message', async (event: MessageEvent<EntityRequest>) => {
+  const request = event.data;
+  if ('cancel' in request) {
+    cancelled.add(request.id);
+    return;
+  }
+
+  try {
+    post({ id: request.id, matches: await findEntities(request.id, request.texts) });
+  } catch (error) {
+    post({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    cancelled.delete(request.id);
+  }
+});
@@ -0,0 +1,79 @@
+/**
+ * Command Notifications
+ *
+ * Ribbon commands and shortcuts run without the task pane, so they report
+ * their outcome in a small Office dialog (Word has no notification bar
+ * for add-ins). The notice travels to the dialog page in its URL.
+ */
+
+export type NoticeKind = 'success' | 'warning' | 'error';
+
+export interface Notice {
+  kind: NoticeKind;
+  title: string;
+  message: string;
+}
+
+// Message the dialog sends when the user dismisses it
+export const DISMISS_MESSAGE = 'dismiss';
+
+const DIALOG_URL = new URL(`${import.meta.env.BASE_URL}notification.html`, window.location.href);
+
+// Dialog size, as a percentage of the Word window
+const DIALOG_WIDTH = 30;
+const DIALOG_HEIGHT = 25;
+
+// Office allows one dialog at a time; a new notice replaces the last one
+let openDialog: Office.Dialog | null = null;
+
+/**
+ * Shows the notice and resolves once the dialog is open; it closes
+ * itself when dismissed
+ */
+export function showNotification(notice: Notice): Promise<void> {
+  const url = new URL(DIALOG_URL);
+  url.searchParams.set('kind', notice.kind);
+  url.searchParams.set('title', notice.title);
+  url.searchParams.set('message', notice.message);
+
+  openDialog?.close();
+  openDialog = null;
+
+  return new Promise((resolve, reject) => {
+    Office.context.ui.displayDialogAsync(
+      url.toString(),
+      { width: DIALOG_WIDTH, height: DIALOG_HEIGHT, displayInIframe: true },
+      (asyncResult) => {
+        if (asyncResult.status !== Office.AsyncResultStatus.Succeeded) {
+          reject(new Error(asyncResult.error.message));
+          return;
+        }
+        const dialog = asyncResult.value;
+        openDialog = dialog;
+        dialog.addEventHandler(Office.EventType.DialogMessageReceived, (arg) => {
+          if ('message' in arg && arg.message === DISMISS_MESSAGE) {
+            dialog.close();
+            openDialog = null;
+          }
+        });
+        dialog.addEventHandler(Office.EventType.DialogEventReceived, () => {
+          openDialog = null;
+        });
+        resolve();
+      }
+    );
+  });
+}
+
+/**
+ * Reads the notice a dialog page was opened with
+ */
+export function readNotice(search: string): Notice {
+  const params = new URLSearchParams(search);
+  const kind = params.get('kind');
+  return {
+    kind: kind === 'success' || kind === 'warning' ? kind : 'error',
+    title: params.get('title') ?? '',
+    message: params.get('message') ?? '',
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Notification Dialog
+ *
+ * Page shown by showNotification(). Text is set with textContent, since
+ * it arrives in the URL.
+ */
+
+import './styles.css';
+import { DISMISS_MESSAGE, readNotice } from './notification';
+
+Office.onReady(() => {
+  const app = document.getElementById('app');
+  if (!app) return;
+
+  const notice = readNotice(window.location.search);
+  app.innerHTML = `
+    <div class="notification">
+      <div class="status-message ${notice.kind}">
+        <div class="status-content">
+          <div class="status-title"></div>
+          <div class="status-details"></div>
+        </div>
+      </div>
+      <button type="button" class="secondary-btn notification-dismiss">OK</button>
+    </div>
+  `;
+  const title = app.querySelector<HTMLElement>('.status-title');
+  const details = app.querySelector<HTMLElement>('.status-details');
+  if (title) title.textContent = notice.title;
+  if (details) details.textContent = notice.message;
+  document.title = notice.title;
+
+  app.querySelector('.notification-dismiss')?.addEventListener('click', () => {
+    Office.context.ui.messageParent(DISMISS_MESSAGE);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Phone Numbers
+ *
+ * E.164 parsing of international numbers ("+44 20 7946 0958",
+ * "0049 30 1234567") and length checks of national ones ("020 7946
+ * 0958"), using each country's dialing code and national number length.
+ */
+
+import { Region } from './locales';
+
+export interface PhoneCountry {
+  /** Dialing code without the "+" */
+  dialingCode: string;
+  /** Shortest and longest national significant number, in digits */
+  lengths: [number, number];
+  /** Digit dialed before national numbers within the country, if any */
+  trunkPrefix: string;
+}
+
+export interface ParsedPhoneNumber {
+  dialingCode: string;
+  /** Digits after the dialing code, without a trunk prefix */
+  nationalNumber: string;
+  /** Whether the dialing code is one of PHONE_COUNTRIES */
+  known: boolean;
+}
+
+// E.164 numbers have at most 15 digits including the dialing code
+const E164_MAX_DIGITS = 15;
+const E164_MIN_DIGITS = 8;
+
+/**
+ * Numbering rules by ISO country code; every locale region has an entry
+ */
+export const PHONE_COUNTRIES: Record<string, PhoneCountry> = {
+  us: { dialingCode: '1', lengths: [10, 10], trunkPrefix: '' },
+  ca: { dialingCode: '1', lengths: [10, 10], trunkPrefix: '' },
+  gb: { dialingCode: '44', lengths: [9, 10], trunkPrefix: '0' },
+  de: { dialingCode: '49', lengths: [6, 11], trunkPrefix: '0' },
+  il: { dialingCode: '972', lengths: [8, 9], trunkPrefix: '0' },
+  in: { dialingCode: '91', lengths: [10, 10], trunkPrefix: '0' },
+  es: { dialingCode: '34', lengths: [9, 9], trunkPrefix: '' },
+  fr: { dialingCode: '33', lengths: [9, 9], trunkPrefix: '0' },
+  it: { dialingCode: '39', lengths: [6, 11], trunkPrefix: '' },
+  nl: { dialingCode: '31', lengths: [9, 9], trunkPrefix: '0' },
+  ie: { dialingCode: '353', lengths: [7, 9], trunkPrefix: '0' },
+  ch: { dialingCode: '41', lengths: [9, 9], trunkPrefix: '0' },
+  au: { dialingCode: '61', lengths: [9, 9], trunkPrefix: '0' },
+  br: { dialingCode: '55', lengths: [10, 11], trunkPrefix: '0' },
+  mx: { dialingCode: '52', lengths: [10, 10], trunkPrefix: '' },
+  cn: { dialingCode: '86', lengths: [10, 11], trunkPrefix: '0' },
+  jp: { dialingCode: '81', lengths: [9, 10], trunkPrefix: '0' },
+};
+
+/**
+ * Parses a number written with "+" or "00" and its dialing code.
+ * Returns null when it cannot be an E.164 number, or when the dialing
+ * code is known and the national number has the wrong length.
+ */
+export function parseInternationalNumber(value: string): ParsedPhoneNumber | null {
+  // "+44 (0)20 ..." repeats the trunk prefix for callers within the country
+  const compact = value.replace(/\(0\)/g, '').trim();
+  if (!/^(?:\+|00)/.test(compact)) return null;
+
+  const digits = compact.replace(/\D/g, '').replace(/^00/, '');
+  if (digits.length < E164_MIN_DIGITS || digits.length > E164_MAX_DIGITS) return null;
+
+  // Dialing codes are prefix-free, so at most one length matches
+  for (const length of [1, 2, 3]) {
+    const dialingCode = digits.substring(0, length);
+    const country = Object.values(PHONE_COUNTRIES).find((candidate) => candidate.dialingCode === dialingCode);
+    if (!country) continue;
+
+    const nationalNumber = digits.substring(length);
+    const [min, max] = country.lengths;
+    if (nationalNumber.length < min || nationalNumber.length > max) return null;
+    return { dialingCode, nationalNumber, known: true };
+  }
+
+  return { dialingCode: '', nationalNumber: digits, known: false };
+}
+
+/**
+ * Checks a number written the way it is dialed within a region: the
+ * trunk prefix, if the region has one, and a national number of the
+ * region's length
+ */
+export function isValidNationalNumber(value: string, region: Region): boolean {
+  const {
+    lengths: [min, max],
+    trunkPrefix,
+  } = PHONE_COUNTRIES[region];
+  let digits = value.replace(/\D/g, '');
+  if (trunkPrefix && digits.startsWith(trunkPrefix)) digits = digits.substring(trunkPrefix.length);
+  return digits.length >= min && digits.length <= max;
+}
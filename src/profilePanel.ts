@@ -0,0 +1,167 @@
+/**
+ * Policy Profile Panel
+ *
+ * Task pane card for choosing a policy profile, and for sharing profiles
+ * as JSON files.
+ */
+
+import { loadBannerOptions, saveBannerOptions } from './banner';
+import { DETECTORS } from './detectors';
+import { downloadFile, escapeHtml } from './html';
+import { loadMarkerStyles, saveMarkerStyles } from './markers';
+import { ENTITY_DETECTORS } from './ner';
+import {
+  BUILT_IN_PROFILES,
+  exportProfile,
+  getRecordedProfile,
+  loadActiveProfile,
+  loadImportedProfiles,
+  parseProfile,
+  PolicyProfile,
+  saveActiveProfile,
+  saveImportedProfiles,
+} from './profiles';
+import { loadRunDefaults, saveRunDefaults } from './runDefaults';
+
+/**
+ * Render the profile card into the container. `onChange` runs after a
+ * profile is chosen and its settings saved, so the other cards and the
+ * options can show them.
+ */
+export function renderProfilePanel(container: HTMLElement, onChange: () => void): void {
+  const active = loadActiveProfile();
+  const imported = loadImportedProfiles();
+  const option = (profile: PolicyProfile) => `
+    <option value="${escapeHtml(profile.id)}" ${profile.id === active?.id ? 'selected' : ''}>${escapeHtml(profile.name)}</option>
+  `;
+
+  container.innerHTML = `
+    <h2>Policy profile</h2>
+    <form class="rule-form profile-form">
+      <select name="profile" class="rule-input">
+        <option value="">None (standard detectors)</option>
+        <optgroup label="Built-in">${BUILT_IN_PROFILES.map(option).join('')}</optgroup>
+        ${imported.length > 0 ? `<optgroup label="Imported">${imported.map(option).join('')}</optgroup>` : ''}
+      </select>
+      <p class="profile-description">${escapeHtml(active?.description ?? 'Your own detector, marker and banner settings.')}</p>
+      <p class="profile-description profile-recorded" hidden></p>
+      <div class="rule-row">
+        <button type="button" class="secondary-btn" data-action="export">Export</button>
+        <label class="secondary-btn profile-import">
+          Import
+          <input name="file" type="file" accept=".json,application/json" hidden />
+        </label>
+        ${imported.some((profile) => profile.id === active?.id) ? '<button type="button" class="secondary-btn" data-action="remove">Remove</button>' : ''}
+      </div>
+      <div class="rule-error" role="alert"></div>
+    </form>
+  `;
+
+  const form = container.querySelector<HTMLFormElement>('.profile-form');
+  if (!form) return;
+  const select = form.elements.namedItem('profile') as HTMLSelectElement;
+  const fileInput = form.elements.namedItem('file') as HTMLInputElement;
+  const errorBox = form.querySelector<HTMLElement>('.rule-error');
+
+  const fail = (action: string, error: unknown) => {
+    if (errorBox) errorBox.textContent = `${action}: ${error instanceof Error ? error.message : String(error)}`;
+  };
+  const refresh = () => {
+    renderProfilePanel(container, onChange);
+    onChange();
+  };
+
+  showRecordedProfile(form);
+
+  select.addEventListener('change', async () => {
+    const profile = [...BUILT_IN_PROFILES, ...imported].find((candidate) => candidate.id === select.value);
+    try {
+      if (profile) {
+        await applyProfile(profile);
+      } else {
+        await saveActiveProfile('');
+      }
+      refresh();
+    } catch (error) {
+      fail('Could not apply the profile', error);
+    }
+  });
+
+  form.querySelector('[data-action="export"]')?.addEventListener('click', () => {
+    const profile = currentSettings(active);
+    const fileName = `${profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.policy.json`;
+    downloadFile(fileName, exportProfile(profile), 'application/json');
+  });
+
+  fileInput.addEventListener('change', async () => {
+    const file = fileInput.files?.[0];
+    if (!file) return;
+    try {
+      const profile = parseProfile(await file.text());
+      if (BUILT_IN_PROFILES.some((builtIn) => builtIn.name.toLowerCase() === profile.name.toLowerCase())) {
+        throw new Error(`"${profile.name}" is a built-in profile; rename the imported one.`);
+      }
+      await saveImportedProfiles([...imported.filter((existing) => existing.id !== profile.id), profile]);
+      await applyProfile(profile);
+      refresh();
+    } catch (error) {
+      fileInput.value = '';
+      fail('Could not import the profile', error);
+    }
+  });
+
+  form.querySelector('[data-action="remove"]')?.addEventListener('click', async () => {
+    try {
+      await saveImportedProfiles(imported.filter((profile) => profile.id !== active?.id));
+      await saveActiveProfile('');
+      refresh();
+    } catch (error) {
+      fail('Could not remove the profile', error);
+    }
+  });
+}
+
+/**
+ * Selects a profile and copies its marker styles, banner and tracking
+ * into the document settings
+ */
+async function applyProfile(profile: PolicyProfile): Promise<void> {
+  await saveMarkerStyles(profile.markerStyles);
+  await saveBannerOptions(profile.banner);
+  await saveRunDefaults({ ...loadRunDefaults(), tracking: profile.tracking });
+  await saveActiveProfile(profile.id);
+}
+
+/**
+ * The settings in effect, as a profile to export. Marker styles, banner
+ * and tracking may have been changed since the profile was chosen.
+ */
+function currentSettings(active: PolicyProfile | null): PolicyProfile {
+  const standard = [...DETECTORS, ...ENTITY_DETECTORS].filter((detector) => !detector.optional);
+  return {
+    id: active?.id ?? 'custom',
+    name: active?.name ?? 'Custom policy',
+    description: active?.description ?? '',
+    detectors: active?.detectors ?? standard.map((detector) => detector.id),
+    markerStyles: loadMarkerStyles(),
+    banner: loadBannerOptions(),
+    tracking: loadRunDefaults().tracking,
+  };
+}
+
+/**
+ * Shows which profile the last run on this document followed
+ */
+async function showRecordedProfile(form: HTMLFormElement): Promise<void> {
+  const line = form.querySelector<HTMLElement>('.profile-recorded');
+  let recorded: string | undefined;
+  try {
+    recorded = await getRecordedProfile();
+  } catch {
+    recorded = undefined;
+  }
+  if (line && recorded) {
+    line.textContent = `Last redacted under the ${recorded} profile.`;
+    line.hidden = false;
+  }
+}
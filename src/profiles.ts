@@ -0,0 +1,350 @@
+/**
+ * Policy Profiles
+ *
+ * A profile bundles what a team's policy decides: which detectors run,
+ * the marker style of each, the classification banner and how the
+ * changes are tracked. Choosing a profile copies its marker styles,
+ * banner and tracking into the document settings, where the task pane
+ * cards can still fine-tune them; its detector list applies while it
+ * stays selected. Profiles can be shared as JSON files (see
+ * public/policy-profile.schema.json). The name of the profile a run
+ * used is recorded in a custom document property.
+ */
+
+import { BannerOptions, BannerPlacement, CLASSIFICATION_LEVELS, DEFAULT_BANNER_OPTIONS } from './banner';
+import { Detector, DETECTORS } from './detectors';
+import { DEFAULT_STYLE_KEY, MARKER_STRATEGIES, MarkerStyle } from './markers';
+import { ENTITY_DETECTORS } from './ner';
+import { getSetting, saveSetting } from './settings';
+import { DEFAULT_TRACKING_OPTIONS, TrackingOptions } from './tracking';
+
+export interface PolicyProfile {
+  id: string;
+  name: string;
+  description: string;
+  /** Built-in and entity detector ids that run; custom rules always run */
+  detectors: string[];
+  /** Marker style per detector id, plus the default under '*' */
+  markerStyles: Record<string, MarkerStyle>;
+  banner: BannerOptions;
+  tracking: TrackingOptions;
+}
+
+// Identifies exported profile files, and their layout's version
+const FILE_FORMAT = 'redaction-policy';
+const FILE_VERSION = 1;
+
+// Document settings keys for the selected profile and imported profiles
+const ACTIVE_KEY = 'redaction.profile';
+const IMPORTED_KEY = 'redaction.importedProfiles';
+
+// Custom document property naming the profile of the last run
+export const PROFILE_PROPERTY = 'Redaction Policy';
+
+// Longest profile name accepted from a file
+const MAX_NAME_LENGTH = 60;
+
+const IDENTITY_DETECTORS = [
+  'email',
+  'phone',
+  'phoneInternational',
+  'phoneGb',
+  'phoneDe',
+  'phoneIl',
+  'phoneIn',
+  'phoneEs',
+];
+const NATIONAL_IDS = ['ssn', 'ssnMasked', 'ssnPartial', 'nino', 'sin', 'teudatZehut', 'aadhaar', 'spanishId'];
+const FINANCIAL_DETECTORS = ['creditCard', 'iban'];
+const NETWORK_DETECTORS = ['ipv4', 'ipv6'];
+const DOCUMENT_NUMBERS = ['passport', 'driversLicense'];
+
+export const BUILT_IN_PROFILES: PolicyProfile[] = [
+  {
+    id: 'hipaa',
+    name: 'HIPAA',
+    description: 'Protected health information: adds medical record numbers, birth dates and health plan IDs',
+    detectors: [
+      ...IDENTITY_DETECTORS,
+      ...NATIONAL_IDS,
+      ...FINANCIAL_DETECTORS,
+      ...NETWORK_DETECTORS,
+      ...DOCUMENT_NUMBERS,
+      'dateOfBirth',
+      'mrn',
+      'healthPlanId',
+      'person',
+      'location',
+    ],
+    markerStyles: { [DEFAULT_STYLE_KEY]: 'label' },
+    banner: {
+      ...DEFAULT_BANNER_OPTIONS,
+      level: 'confidential',
+      text: 'CONFIDENTIAL: PROTECTED HEALTH INFORMATION',
+      placement: 'both',
+    },
+    tracking: { redactions: 'trackedThenAccept', header: 'tracked', restoreOriginal: true },
+  },
+  {
+    id: 'gdpr',
+    name: 'GDPR',
+    description: 'Personal data of EU residents, pseudonymised so mentions stay linkable',
+    detectors: [
+      ...IDENTITY_DETECTORS,
+      ...NATIONAL_IDS,
+      ...FINANCIAL_DETECTORS,
+      ...NETWORK_DETECTORS,
+      ...DOCUMENT_NUMBERS,
+      'dateOfBirth',
+      'person',
+      'location',
+    ],
+    markerStyles: { [DEFAULT_STYLE_KEY]: 'pseudonym' },
+    banner: { ...DEFAULT_BANNER_OPTIONS, level: 'internal', text: 'CONTAINS PSEUDONYMISED PERSONAL DATA' },
+    tracking: { redactions: 'trackedThenAccept', header: 'tracked', restoreOriginal: true },
+  },
+  {
+    id: 'hr',
+    name: 'HR',
+    description: 'Employee records: contact details, national IDs, bank details and birth dates',
+    detectors: [
+      ...IDENTITY_DETECTORS,
+      ...NATIONAL_IDS,
+      ...FINANCIAL_DETECTORS,
+      ...DOCUMENT_NUMBERS,
+      'dateOfBirth',
+      'person',
+    ],
+    markerStyles: { [DEFAULT_STYLE_KEY]: 'redacted', iban: 'partial', creditCard: 'partial' },
+    banner: { ...DEFAULT_BANNER_OPTIONS, level: 'restricted', text: 'RESTRICTED: HR PERSONNEL FILE' },
+    tracking: { redactions: 'clean', header: 'clean', restoreOriginal: true },
+  },
+  {
+    id: 'legal',
+    name: 'Legal',
+    description: 'Court filings and productions: everything, blacked out, with a tracked audit trail',
+    detectors: [
+      ...IDENTITY_DETECTORS,
+      ...NATIONAL_IDS,
+      ...FINANCIAL_DETECTORS,
+      ...NETWORK_DETECTORS,
+      ...DOCUMENT_NUMBERS,
+      'dateOfBirth',
+      'mrn',
+      'healthPlanId',
+      'person',
+      'location',
+      'organization',
+    ],
+    markerStyles: { [DEFAULT_STYLE_KEY]: 'blackBox' },
+    banner: {
+      ...DEFAULT_BANNER_OPTIONS,
+      level: 'confidential',
+      text: 'PRIVILEGED & CONFIDENTIAL',
+      placement: 'both',
+      allSections: true,
+    },
+    tracking: { redactions: 'tracked', header: 'tracked', restoreOriginal: false },
+  },
+];
+
+/**
+ * Ids a profile may list: every built-in and entity detector
+ */
+function knownDetectorIds(): string[] {
+  return [...DETECTORS, ...ENTITY_DETECTORS].map((detector) => detector.id);
+}
+
+/**
+ * Reads the imported profiles from the document settings
+ */
+export function loadImportedProfiles(): PolicyProfile[] {
+  const saved = getSetting<PolicyProfile[]>(IMPORTED_KEY, []);
+  return Array.isArray(saved) ? saved : [];
+}
+
+/**
+ * Saves the imported profiles into the document settings
+ */
+export function saveImportedProfiles(profiles: PolicyProfile[]): Promise<void> {
+  return saveSetting(IMPORTED_KEY, profiles);
+}
+
+/**
+ * Built-in profiles followed by the imported ones
+ */
+export function listProfiles(): PolicyProfile[] {
+  return [...BUILT_IN_PROFILES, ...loadImportedProfiles()];
+}
+
+/**
+ * The selected profile, or null when none is
+ */
+export function loadActiveProfile(): PolicyProfile | null {
+  const id = getSetting<string>(ACTIVE_KEY, '');
+  return listProfiles().find((profile) => profile.id === id) ?? null;
+}
+
+/**
+ * Saves which profile is selected; an empty id selects none
+ */
+export function saveActiveProfile(id: string): Promise<void> {
+  return saveSetting(ACTIVE_KEY, id);
+}
+
+/**
+ * Whether a built-in or entity detector runs. The selected profile
+ * decides; without one, every detector runs except the optional ones
+ * that only profiles turn on. Custom rules are not affected.
+ */
+export function isInProfile(detector: Detector, profile: PolicyProfile | null): boolean {
+  if (!knownDetectorIds().includes(detector.id)) return true;
+  return profile ? profile.detectors.includes(detector.id) : !detector.optional;
+}
+
+/**
+ * The exported file for a profile
+ */
+export function exportProfile(profile: PolicyProfile): string {
+  const { id: _id, ...contents } = profile;
+  return JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, ...contents }, null, 2);
+}
+
+/**
+ * Reads and checks an exported profile file. Throws with a message
+ * naming the first problem found.
+ */
+export function parseProfile(contents: string): PolicyProfile {
+  let data: unknown;
+  try {
+    data = JSON.parse(contents);
+  } catch {
+    throw new Error('This file is not a policy profile.');
+  }
+  if (!isObject(data) || data.format !== FILE_FORMAT) {
+    throw new Error('This file is not a policy profile.');
+  }
+  if (data.version !== FILE_VERSION) {
+    throw new Error(`Profile version ${String(data.version)} is not supported.`);
+  }
+
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name) throw new Error('The profile has no name.');
+  if (name.length > MAX_NAME_LENGTH) throw new Error(`The profile name is longer than ${MAX_NAME_LENGTH} characters.`);
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    throw new Error('"description" must be text.');
+  }
+
+  return {
+    id: `imported-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name,
+    description: data.description ?? '',
+    detectors: parseDetectors(data.detectors),
+    markerStyles: parseMarkerStyles(data.markerStyles),
+    banner: parseBanner(data.banner),
+    tracking: parseTracking(data.tracking),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseDetectors(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('"detectors" must list at least one detector id.');
+  }
+  const known = knownDetectorIds();
+  for (const id of value) {
+    if (typeof id !== 'string' || !known.includes(id)) throw new Error(`Unknown detector "${String(id)}".`);
+  }
+  return value as string[];
+}
+
+function parseMarkerStyles(value: unknown): Record<string, MarkerStyle> {
+  if (value === undefined) return {};
+  if (!isObject(value)) throw new Error('"markerStyles" must map detector ids to marker styles.');
+  const styles = MARKER_STRATEGIES.map((strategy) => strategy.id as string);
+  for (const [id, style] of Object.entries(value)) {
+    if (typeof style !== 'string' || !styles.includes(style)) {
+      throw new Error(`Unknown marker style "${String(style)}" for "${id}".`);
+    }
+  }
+  return value as Record<string, MarkerStyle>;
+}
+
+function parseBanner(value: unknown): BannerOptions {
+  if (value === undefined) return DEFAULT_BANNER_OPTIONS;
+  if (!isObject(value)) throw new Error('"banner" must be an object.');
+  const banner = { ...DEFAULT_BANNER_OPTIONS, ...value };
+  if (!(typeof banner.level === 'string' && banner.level in CLASSIFICATION_LEVELS)) {
+    throw new Error(`Unknown classification level "${String(banner.level)}".`);
+  }
+  if (typeof banner.text !== 'string') throw new Error('"banner.text" must be text.');
+  if (typeof banner.color !== 'string' || !/^(?:#[0-9A-Fa-f]{6})?$/.test(banner.color)) {
+    throw new Error('"banner.color" must be empty or a colour such as #C00000.');
+  }
+  if (!(['header', 'footer', 'both'] as BannerPlacement[]).includes(banner.placement)) {
+    throw new Error(`Unknown banner placement "${String(banner.placement)}".`);
+  }
+  if (typeof banner.allSections !== 'boolean') throw new Error('"banner.allSections" must be true or false.');
+  return banner;
+}
+
+function parseTracking(value: unknown): TrackingOptions {
+  if (value === undefined) return DEFAULT_TRACKING_OPTIONS;
+  if (!isObject(value)) throw new Error('"tracking" must be an object.');
+  const tracking = { ...DEFAULT_TRACKING_OPTIONS, ...value };
+  if (!['clean', 'tracked', 'trackedThenAccept'].includes(tracking.redactions)) {
+    throw new Error(`Unknown redaction tracking mode "${String(tracking.redactions)}".`);
+  }
+  if (!['clean', 'tracked'].includes(tracking.header)) {
+    throw new Error(`Unknown banner tracking mode "${String(tracking.header)}".`);
+  }
+  if (typeof tracking.restoreOriginal !== 'boolean')
+    throw new Error('"tracking.restoreOriginal" must be true or false.');
+  return tracking;
+}
+
+function isCustomPropertiesSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.3');
+}
+
+/**
+ * The profile name recorded by the last run, if any
+ */
+export async function readRecordedProfile(context: Word.RequestContext): Promise<string | undefined> {
+  if (!isCustomPropertiesSupported()) return undefined;
+  const property = context.document.properties.customProperties.getItemOrNullObject(PROFILE_PROPERTY);
+  property.load('value');
+  await context.sync();
+  return property.isNullObject ? undefined : String(property.value);
+}
+
+/**
+ * Records the profile a run used in a custom document property, or
+ * removes the property when the run used none
+ */
+export async function recordProfile(context: Word.RequestContext, name: string | undefined): Promise<void> {
+  if (!isCustomPropertiesSupported()) return;
+  const properties = context.document.properties.customProperties;
+  if (name) {
+    properties.add(PROFILE_PROPERTY, name);
+    await context.sync();
+    return;
+  }
+
+  const property = properties.getItemOrNullObject(PROFILE_PROPERTY);
+  property.load('isNullObject');
+  await context.sync();
+  if (property.isNullObject) return;
+  property.delete();
+  await context.sync();
+}
+
+/**
+ * The profile name recorded in the open document, if any
+ */
+export function getRecordedProfile(): Promise<string | undefined> {
+  return Word.run((context) => readRecordedProfile(context));
+}
@@ -0,0 +1,40 @@
+/**
+ * Progress and Cancellation
+ *
+ * Long runs over large documents work through the text in chunks. After
+ * each chunk they report how far they got and check whether the user
+ * asked them to stop.
+ */
+
+export type ProgressStage = 'scanning' | 'entities' | 'redacting' | 'finishing';
+
+export interface Progress {
+  stage: ProgressStage;
+  /** Units of work done in this stage (paragraphs, matches, ...) */
+  done: number;
+  total: number;
+}
+
+/**
+ * How the caller follows and stops a run
+ */
+export interface RunControl {
+  onProgress?: (progress: Progress) => void;
+  /** Aborted when the user cancels; the run stops after its current chunk */
+  signal?: AbortSignal;
+}
+
+export const STAGE_LABELS: Record<ProgressStage, string> = {
+  scanning: 'Scanning',
+  entities: 'Finding names and places',
+  redacting: 'Redacting',
+  finishing: 'Finishing',
+};
+
+/**
+ * Lets the task pane repaint and handle clicks (such as Cancel) between
+ * chunks of work
+ */
+export function yieldToUi(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
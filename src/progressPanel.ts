@@ -0,0 +1,60 @@
+/**
+ * Progress Panel
+ *
+ * Progress bar and Cancel button shown in the status area while a scan
+ * or redaction runs.
+ */
+
+import { Progress, RunControl, STAGE_LABELS } from './progress';
+
+export interface ProgressPanel {
+  /** Pass to the run so it reports here and can be cancelled */
+  control: RunControl;
+  /** Removes the panel */
+  close: () => void;
+}
+
+/**
+ * Append a progress card to the container
+ */
+export function renderProgressPanel(container: HTMLElement): ProgressPanel {
+  const abort = new AbortController();
+  const card = document.createElement('div');
+  card.className = 'progress-card';
+  card.innerHTML = `
+    <div class="progress-header">
+      <span class="progress-stage">Starting</span>
+      <span class="progress-count"></span>
+    </div>
+    <div class="progress-track" role="progressbar" aria-valuemin="0" aria-valuemax="100" aria-valuenow="0">
+      <div class="progress-fill"></div>
+    </div>
+    <button type="button" class="secondary-btn progress-cancel">Cancel</button>
+  `;
+  container.appendChild(card);
+
+  const stage = card.querySelector<HTMLElement>('.progress-stage');
+  const count = card.querySelector<HTMLElement>('.progress-count');
+  const track = card.querySelector<HTMLElement>('.progress-track');
+  const fill = card.querySelector<HTMLElement>('.progress-fill');
+  const cancel = card.querySelector<HTMLButtonElement>('.progress-cancel');
+
+  cancel?.addEventListener('click', () => {
+    abort.abort();
+    cancel.disabled = true;
+    cancel.textContent = 'Cancelling...';
+  });
+
+  const onProgress = (progress: Progress) => {
+    const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+    if (stage) stage.textContent = STAGE_LABELS[progress.stage];
+    if (count) count.textContent = progress.total > 0 ? `${progress.done} of ${progress.total}` : '';
+    if (fill) fill.style.width = `${percent}%`;
+    track?.setAttribute('aria-valuenow', String(percent));
+  };
+
+  return {
+    control: { onProgress, signal: abort.signal },
+    close: () => card.remove(),
+  };
+}
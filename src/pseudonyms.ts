@@ -0,0 +1,262 @@
+/**
+ * Consistent Pseudonymization
+ *
+ * Values redacted with the "pseudonym" marker style are replaced by a
+ * placeholder that is the same for every mention of the same value, so
+ * readers can tell that two redacted mentions refer to the same thing.
+ * Values are compared after normalization: phone numbers by digits,
+ * emails case-insensitively, SSNs with or without separators.
+ */
+
+import { getSetting, saveSetting } from './settings';
+
+export type PseudonymMode = 'number' | 'hmac' | 'fake';
+
+/**
+ * How pseudonyms are generated for a run
+ */
+export interface PseudonymOptions {
+  mode: PseudonymMode;
+  /** Secret for the HMAC mode; never stored */
+  key: string;
+}
+
+/**
+ * One pseudonym and the original spellings it replaced
+ */
+export interface PseudonymEntry {
+  pseudonym: string;
+  tag: string;
+  values: string[];
+}
+
+/**
+ * A value to pseudonymize
+ */
+export interface PseudonymRequest {
+  detector: string;
+  tag: string;
+  value: string;
+}
+
+export const PSEUDONYM_MODES: Record<PseudonymMode, string> = {
+  number: 'Numbered, e.g. [EMAIL-1]',
+  hmac: 'Keyed hash, e.g. [EMAIL-3f9a2c1b]',
+  fake: 'Realistic fake values',
+};
+
+export const DEFAULT_PSEUDONYM_OPTIONS: PseudonymOptions = { mode: 'number', key: '' };
+
+// Number of hex characters of the HMAC kept in a placeholder
+const HMAC_LENGTH = 8;
+
+// Document settings key for the fake values written so far. Fakes look
+// like the real thing, so later scans need the list to pass over them.
+const FAKE_VALUES_KEY = 'redaction.fakeValues';
+
+// Documentation ranges (RFC 5737), so fake addresses never point anywhere
+const FAKE_IPV4_NETWORKS = ['192.0.2', '198.51.100', '203.0.113'];
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/**
+ * The form of a value that is compared to decide whether two mentions
+ * are the same
+ *
+ * - phone: digits only, without a leading US country code
+ * - email: lower case
+ * - SSNs, cards, IBANs: without spaces, dashes or dots, upper case
+ * - others: trimmed, whitespace collapsed
+ */
+export function normalizeValue(detector: string, value: string): string {
+  switch (detector) {
+    case 'phone': {
+      const digits = value.replace(/\D/g, '');
+      return digits.length === 11 && digits.startsWith('1') ? digits.substring(1) : digits;
+    }
+    case 'email':
+      return value.trim().toLowerCase();
+    case 'ssn':
+    case 'ssnMasked':
+    case 'ssnPartial':
+    case 'creditCard':
+    case 'iban':
+      return value.replace(/[-.\s]/g, '').toUpperCase();
+    default:
+      return value.trim().replace(/\s+/g, ' ');
+  }
+}
+
+/**
+ * Key under which a value's pseudonym is stored. Detectors sharing a tag
+ * (the SSN variants) share placeholders.
+ */
+export function pseudonymKey(detector: string, tag: string, value: string): string {
+  return `${tag}\u0000${normalizeValue(detector, value)}`;
+}
+
+/**
+ * Assigns a pseudonym to each distinct normalized value, numbering them
+ * per tag in the order given. Returns the entries keyed by pseudonymKey.
+ */
+export async function assignPseudonyms(
+  requests: PseudonymRequest[],
+  options: PseudonymOptions
+): Promise<Map<string, PseudonymEntry>> {
+  if (options.mode === 'hmac' && !options.key) {
+    throw new Error('Enter a key for keyed-hash pseudonyms.');
+  }
+  const hmacKey = options.mode === 'hmac' ? await importHmacKey(options.key) : null;
+
+  const entries = new Map<string, PseudonymEntry>();
+  const counters: Record<string, number> = {};
+
+  for (const request of requests) {
+    const key = pseudonymKey(request.detector, request.tag, request.value);
+    const existing = entries.get(key);
+    if (existing) {
+      if (!existing.values.includes(request.value)) existing.values.push(request.value);
+      continue;
+    }
+
+    const number = (counters[request.tag] ?? 0) + 1;
+    counters[request.tag] = number;
+
+    let pseudonym: string;
+    if (hmacKey) {
+      pseudonym = `[${request.tag}-${await hmacHex(hmacKey, key)}]`;
+    } else if (options.mode === 'fake') {
+      pseudonym = fakeValue(request.detector, request.value, number) ?? `[${request.tag}-${number}]`;
+    } else {
+      pseudonym = `[${request.tag}-${number}]`;
+    }
+    entries.set(key, { pseudonym, tag: request.tag, values: [request.value] });
+  }
+
+  return entries;
+}
+
+/**
+ * The fake values earlier runs wrote into this document
+ */
+export function loadFakeValues(): string[] {
+  return getSetting<string[]>(FAKE_VALUES_KEY, []);
+}
+
+/**
+ * Adds the fake values of a run to those recorded in the document.
+ * Placeholders such as [EMAIL-1] need no record: no detector finds them.
+ */
+export function rememberFakeValues(entries: PseudonymEntry[]): Promise<void> {
+  const fakes = entries.map((entry) => entry.pseudonym).filter((pseudonym) => !pseudonym.startsWith('['));
+  if (fakes.length === 0) return Promise.resolve();
+  return saveSetting(FAKE_VALUES_KEY, [...new Set([...loadFakeValues(), ...fakes])]);
+}
+
+async function importHmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+}
+
+async function hmacHex(key: CryptoKey, text: string): Promise<string> {
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(text)));
+  return [...signature]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .substring(0, HMAC_LENGTH);
+}
+
+/**
+ * The n-th fake value for a detector, shaped like the original where the
+ * format allows; null for detectors without a fake generator
+ */
+function fakeValue(detector: string, value: string, n: number): string | null {
+  switch (detector) {
+    case 'email':
+      return `person${n}@example.com`;
+    case 'phone': {
+      // 555-0100 to 555-0199 are reserved for fiction; a leading
+      // country code is kept
+      const countryCode = value.replace(/\D/g, '').length === 11 ? '1' : '';
+      const areaCode = 200 + Math.floor((n - 1) / 100);
+      return reshapeDigits(value, `${countryCode}${areaCode}55501${String((n - 1) % 100).padStart(2, '0')}`);
+    }
+    case 'ssn':
+      // Area numbers starting with 9 are never issued
+      return reshapeDigits(value, `9${String(n).padStart(8, '0')}`);
+    case 'ssnMasked':
+    case 'ssnPartial':
+      return reshapeDigits(value, String(n).padStart(4, '0'));
+    case 'creditCard':
+      return reshapeDigits(value, fakeCardNumber(value.replace(/\D/g, '').length, n));
+    case 'iban':
+      return reshapeDigits(value, String(n).padStart(value.replace(/\D/g, '').length, '0'));
+    case 'ipv4': {
+      const network = FAKE_IPV4_NETWORKS[Math.floor((n - 1) / 254) % FAKE_IPV4_NETWORKS.length];
+      return `${network}.${((n - 1) % 254) + 1}`;
+    }
+    case 'ipv6':
+      return `2001:db8::${n.toString(16)}`;
+    case 'dateOfBirth':
+      return fakeDate(value, n);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replaces the digits of a value, left to right, with the given digits,
+ * keeping letters and separators. Missing digits are taken as zeros.
+ */
+function reshapeDigits(value: string, digits: string): string {
+  const padded = digits.padStart(value.replace(/\D/g, '').length, '0');
+  let index = padded.length - value.replace(/\D/g, '').length;
+  return value.replace(/\d/g, () => padded[index++]);
+}
+
+/**
+ * A Luhn-valid card number of the given length in the 4000 test range
+ */
+function fakeCardNumber(length: number, n: number): string {
+  const body = `4000${String(n).padStart(length - 5, '0')}`;
+  let sum = 0;
+  [...body].reverse().forEach((char, i) => {
+    let digit = Number(char);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  });
+  return body + String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * A fake date in the original's layout: ISO, numeric month/day/year or
+ * with the month spelled out
+ */
+function fakeDate(value: string, n: number): string {
+  const date = new Date(Date.UTC(1960, 0, 1 + n * 97));
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+  const pad = (part: number) => String(part).padStart(2, '0');
+
+  if (/^\d{4}-/.test(value)) return `${year}-${pad(month)}-${pad(day)}`;
+  if (/^\d/.test(value) && !/[A-Za-z]/.test(value)) return `${pad(month)}/${pad(day)}/${year}`;
+  return `${MONTHS[month - 1]} ${day}, ${year}`;
+}
@@ -0,0 +1,216 @@
+/**
+ * Reversible Redaction
+ *
+ * Values redacted with the "token" marker style are replaced by numbered
+ * tokens such as [EMAIL-0003]. The token → original mapping is exported
+ * as a recovery key file encrypted with a passphrase (PBKDF2 + AES-GCM
+ * via Web Crypto), and the restore command uses that file to put the
+ * original values back.
+ */
+
+import { getSetting, saveSetting } from './settings';
+
+/**
+ * One redacted value and the token that replaced it
+ */
+export interface RecoveryEntry {
+  token: string;
+  original: string;
+  detector: string;
+}
+
+/**
+ * Decrypted contents of a recovery key file
+ */
+export interface RecoveryKey {
+  createdAt: string;
+  entries: RecoveryEntry[];
+}
+
+/**
+ * Encrypted recovery key file as written to disk
+ */
+interface RecoveryKeyFile {
+  format: typeof FILE_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
+
+/**
+ * Hands out tokens during a redaction run
+ */
+export interface TokenIssuer {
+  /** Token for a value; the same value always gets the same token */
+  tokenFor(tag: string, value: string, detector: string): string;
+  /** Every token issued so far */
+  entries(): RecoveryEntry[];
+  /** Next free number per tag, to persist for later runs */
+  counters(): Record<string, number>;
+}
+
+const FILE_FORMAT = 'redaction-recovery-key';
+
+// OWASP-recommended PBKDF2-HMAC-SHA256 work factor
+const PBKDF2_ITERATIONS = 310000;
+// Work factors accepted in a file: enough to be worth trusting, and not
+// so many that a crafted file can hang the task pane
+const MIN_ITERATIONS = 100000;
+const MAX_ITERATIONS = PBKDF2_ITERATIONS * 10;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Bytes passed to String.fromCharCode at a time; spreading a whole
+// large key at once overflows the call stack
+const BASE64_CHUNK = 0x8000;
+
+// Document settings key for the next token number per tag, so a second
+// run never reuses a token already in the document
+const COUNTERS_KEY = 'redaction.tokenCounters';
+
+/**
+ * Creates a token issuer continuing from the given counters
+ */
+export function createTokenIssuer(startCounters: Record<string, number> = {}): TokenIssuer {
+  const counters = { ...startCounters };
+  const issued = new Map<string, RecoveryEntry>();
+
+  return {
+    tokenFor(tag, value, detector) {
+      const key = `${tag}\u0000${value}`;
+      const existing = issued.get(key);
+      if (existing) return existing.token;
+
+      const number = (counters[tag] ?? 0) + 1;
+      counters[tag] = number;
+      const entry = { token: `[${tag}-${String(number).padStart(4, '0')}]`, original: value, detector };
+      issued.set(key, entry);
+      return entry.token;
+    },
+    entries: () => [...issued.values()],
+    counters: () => ({ ...counters }),
+  };
+}
+
+/**
+ * Reads the saved token counters from the document settings
+ */
+export function loadTokenCounters(): Record<string, number> {
+  return getSetting<Record<string, number>>(COUNTERS_KEY, {});
+}
+
+/**
+ * Saves the token counters into the document settings
+ */
+export function saveTokenCounters(counters: Record<string, number>): Promise<void> {
+  return saveSetting(COUNTERS_KEY, counters);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Derives the AES-GCM key from a passphrase
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypts a recovery key into the file contents to download
+ */
+export async function encryptRecoveryKey(key: RecoveryKey, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cryptoKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const plaintext = new TextEncoder().encode(JSON.stringify(key));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, plaintext));
+
+  const file: RecoveryKeyFile = {
+    format: FILE_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    ciphertext: toBase64(ciphertext),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Decrypts a recovery key file. Throws a readable error for a file that
+ * isn't a recovery key or a wrong passphrase.
+ */
+export async function decryptRecoveryKey(contents: string, passphrase: string): Promise<RecoveryKey> {
+  const file = parseKeyFile(contents);
+  let salt: Uint8Array<ArrayBuffer>;
+  let iv: Uint8Array<ArrayBuffer>;
+  let ciphertext: Uint8Array<ArrayBuffer>;
+  try {
+    salt = fromBase64(file.kdf.salt);
+    iv = fromBase64(file.cipher.iv);
+    ciphertext = fromBase64(file.ciphertext);
+  } catch {
+    throw new Error('The recovery key file is damaged.');
+  }
+
+  const cryptoKey = await deriveKey(passphrase, salt, file.kdf.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, cryptoKey, ciphertext);
+  } catch {
+    // AES-GCM authentication fails for a wrong passphrase or a tampered file
+    throw new Error('Wrong passphrase, or the recovery key file is damaged.');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as RecoveryKey;
+}
+
+/**
+ * Reads the contents of a recovery key file, checking every field
+ * decryption relies on. Throws a readable error otherwise.
+ */
+function parseKeyFile(contents: string): RecoveryKeyFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new Error('This file is not a recovery key.');
+  }
+  const file = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as Partial<RecoveryKeyFile>;
+  if (file.format !== FILE_FORMAT || file.version !== 1) {
+    throw new Error('This file is not a recovery key.');
+  }
+
+  const { kdf, cipher, ciphertext } = file;
+  if (kdf?.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || cipher?.name !== 'AES-GCM') {
+    throw new Error('This recovery key was encrypted in a way this version cannot read.');
+  }
+  if (!Number.isInteger(kdf.iterations) || kdf.iterations < MIN_ITERATIONS || kdf.iterations > MAX_ITERATIONS) {
+    throw new Error('The recovery key file has an invalid key derivation setting.');
+  }
+  if (typeof kdf.salt !== 'string' || typeof cipher.iv !== 'string' || typeof ciphertext !== 'string') {
+    throw new Error('The recovery key file is damaged.');
+  }
+  return file as RecoveryKeyFile;
+}
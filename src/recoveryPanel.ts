@@ -0,0 +1,120 @@
+/**
+ * Recovery Key Panel
+ *
+ * Task pane cards for saving the recovery key after a run that used
+ * reversible tokens, and for restoring the original values from a
+ * saved key.
+ */
+
+import { decryptRecoveryKey, encryptRecoveryKey, RecoveryKey } from './recovery';
+import { restoreDocument } from './redaction';
+import { downloadFile } from './html';
+
+// Shortest passphrase accepted for a new recovery key
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Append the "save recovery key" card for a run's token mapping
+ */
+export function renderRecoveryExport(container: HTMLElement, key: RecoveryKey): void {
+  const card = document.createElement('div');
+  card.className = 'info-card status-followup';
+  card.innerHTML = `
+    <h2>Save recovery key</h2>
+    <p class="rule-empty">
+      ${key.entries.length} value${key.entries.length !== 1 ? 's were' : ' was'} replaced by reversible tokens.
+      Save the encrypted key to restore them later; it can't be recreated once this pane is closed.
+    </p>
+    <form class="rule-form" novalidate>
+      <input name="passphrase" type="password" class="rule-input" placeholder="Passphrase" autocomplete="new-password" />
+      <input name="confirm" type="password" class="rule-input" placeholder="Repeat passphrase" autocomplete="new-password" />
+      <div class="rule-error" role="alert"></div>
+      <div class="recovery-status" role="status"></div>
+      <button type="submit" class="secondary-btn">Download recovery key</button>
+    </form>
+  `;
+  container.appendChild(card);
+
+  const form = card.querySelector<HTMLFormElement>('.rule-form');
+  if (!form) return;
+  const field = (name: string) => form.elements.namedItem(name) as HTMLInputElement;
+  const errorBox = form.querySelector<HTMLElement>('.rule-error');
+  const statusBox = form.querySelector<HTMLElement>('.recovery-status');
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    const passphrase = field('passphrase').value;
+    const problem =
+      passphrase.length < MIN_PASSPHRASE_LENGTH
+        ? `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`
+        : passphrase !== field('confirm').value
+          ? 'The passphrases do not match.'
+          : '';
+    if (errorBox) errorBox.textContent = problem;
+    if (problem) return;
+
+    try {
+      const contents = await encryptRecoveryKey(key, passphrase);
+      downloadFile(`recovery-key-${key.createdAt.substring(0, 10)}.json`, contents, 'application/json');
+      if (statusBox) statusBox.textContent = 'Recovery key saved. Keep it and the passphrase somewhere safe.';
+    } catch (error) {
+      if (errorBox) {
+        errorBox.textContent = `Could not create the recovery key: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  });
+}
+
+/**
+ * Render the restore card into the container
+ */
+export function renderRecoveryPanel(container: HTMLElement): void {
+  container.innerHTML = `
+    <h2>Restore redacted values</h2>
+    <form class="rule-form" novalidate>
+      <input name="file" type="file" accept=".json,application/json" class="rule-input" />
+      <input name="passphrase" type="password" class="rule-input" placeholder="Passphrase" autocomplete="current-password" />
+      <div class="rule-error" role="alert"></div>
+      <div class="recovery-status" role="status"></div>
+      <button type="submit" class="secondary-btn">Restore originals</button>
+    </form>
+  `;
+
+  const form = container.querySelector<HTMLFormElement>('.rule-form');
+  if (!form) return;
+  const field = (name: string) => form.elements.namedItem(name) as HTMLInputElement;
+  const errorBox = form.querySelector<HTMLElement>('.rule-error');
+  const statusBox = form.querySelector<HTMLElement>('.recovery-status');
+  const submitBtn = form.querySelector<HTMLButtonElement>('button[type="submit"]');
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    const file = field('file').files?.[0];
+    if (errorBox) errorBox.textContent = '';
+    if (statusBox) statusBox.textContent = '';
+    if (!file) {
+      if (errorBox) errorBox.textContent = 'Choose a recovery key file.';
+      return;
+    }
+
+    if (submitBtn) submitBtn.disabled = true;
+    try {
+      const key = await decryptRecoveryKey(await file.text(), field('passphrase').value);
+      const result = await restoreDocument(key);
+      if (!result.success) throw new Error(result.error ?? 'The values could not be restored.');
+
+      const lines = [`Restored ${result.restored} value${result.restored !== 1 ? 's' : ''}.`];
+      if (result.missing.length > 0) {
+        lines.push(
+          `${result.missing.length} token${result.missing.length !== 1 ? 's were' : ' was'} not found: ${result.missing.join(', ')}.`
+        );
+      }
+      if (statusBox) statusBox.textContent = lines.join(' ');
+      field('passphrase').value = '';
+    } catch (error) {
+      if (errorBox) errorBox.textContent = error instanceof Error ? error.message : String(error);
+    } finally {
+      if (submitBtn) submitBtn.disabled = false;
+    }
+  });
+}
@@ -1,418 +1,999 @@
 /**
  * Document Redaction Module
- * 
- * This module provides robust regex patterns and logic for detecting
- * sensitive information in documents including:
- * - Email addresses
- * - Phone numbers (various formats)
- * - Social Security Numbers (full and partial - last 4 digits)
+ *
+ * Word layer of the add-in: scans every story of the document with the
+ * detection engine, maps each match onto a Word range and replaces it
+ * with a marker in the style chosen for its detector. The kinds of
+ * sensitive information supported are declared in the detector
+ * registry (detectors.ts).
  */
 
-// Redaction marker
-const REDACTION_MARKER = '[REDACTED]';
+import { AllowFilter, DEFAULT_THRESHOLD, detect, Match } from './detection';
+import { createAllowFilter } from './allowList';
+import { describeError } from './errors';
+import { getActiveDetectors } from './rules';
+import { readRecordedProfile, recordProfile } from './profiles';
+import { findEntities } from './ner';
+import { RunControl, yieldToUi } from './progress';
+import { Detector } from './detectors';
+import {
+  buildMarker,
+  getMarkerFormat,
+  loadMarkerStyles,
+  MarkerFormat,
+  MarkerStyle,
+  maskedPreview,
+  resolveMarkerStyle,
+} from './markers';
+import { findHeaderFooterCopies, loadStories, loadStoryTexts, Story, StoryKind } from './stories';
+import { sanitizeDocument, SanitizeOptions, SanitizeReport } from './sanitize';
+import { applyBanner, BannerOptions, BannerReport, DEFAULT_BANNER_OPTIONS } from './banner';
+import { createTokenIssuer, loadTokenCounters, RecoveryKey, saveTokenCounters, TokenIssuer } from './recovery';
+import {
+  assignPseudonyms,
+  DEFAULT_PSEUDONYM_OPTIONS,
+  PseudonymEntry,
+  pseudonymKey,
+  PseudonymOptions,
+  rememberFakeValues,
+} from './pseudonyms';
+import { DOCUMENT_SCOPE, RedactionScope, resolveScope, TextWindow } from './scope';
+import {
+  acceptRunChanges,
+  DEFAULT_TRACKING_OPTIONS,
+  isAcceptChangesSupported,
+  isTrackChangesSupported,
+  readTrackingMode,
+  setTracking,
+  TrackingOptions,
+  TrackingReport,
+} from './tracking';
 
 /**
- * Regex patterns for sensitive information detection
- * These patterns are designed to be comprehensive and handle various formats
+ * Result of a redaction operation
  */
-const PATTERNS = {
+export interface RedactionResult {
+  success: boolean;
+  /** Part of the document that was processed */
+  scope: RedactionScope;
+  /** Number of redactions per detector id */
+  counts: Record<string, number>;
+  /** Number of redactions per kind of story (body, headers, ...) */
+  locationCounts: Partial<Record<StoryKind, number>>;
+  totalRedacted: number;
+  /** One entry per redaction made, for the exported report */
+  records: RedactionRecord[];
+  /** Whether Track Changes is on when the run finishes */
+  trackingEnabled: boolean;
+  /** Which of the run's changes were tracked */
+  tracking: TrackingReport;
+  headerAdded: boolean;
+  /** Where the classification banner was inserted or updated */
+  banner?: BannerReport;
+  /** Metadata and hidden-content findings from the sanitize stage */
+  sanitize?: SanitizeReport;
+  /** Token → original mapping for values replaced by reversible tokens */
+  recovery?: RecoveryKey;
+  /** Placeholders used for pseudonymized values and what they replaced */
+  pseudonyms?: PseudonymEntry[];
   /**
-   * Email pattern - matches standard email formats
-   * Examples: john.doe@example.com, user+tag@domain.co.uk
+   * The user stopped the run. Redactions already made stay in place; the
+   * sanitize stage and the banner were skipped.
    */
-  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
-
+  cancelled?: boolean;
+  /** Number of matches the run set out to redact */
+  totalCandidates?: number;
+  /** Policy profile the run followed */
+  profile?: string;
+  /** Policy profile an earlier run recorded in the document */
+  previousProfile?: string;
+  /** Matches left alone because the allow-list covers them */
+  skipped?: number;
+  /** Outcome of each stage of the run, in order */
+  steps: RunStep[];
   /**
-   * Phone number patterns - multiple formats supported
-   * Formats covered:
-   * - (123) 456-7890
-   * - (123)456-7890
-   * - 123-456-7890
-   * - 123.456.7890
-   * - 123 456 7890
-   * - +1 123 456 7890
-   * - +1-123-456-7890
-   * - +1(123)456-7890
-   * - +11234567890 (with country code)
-   * - 1234567890
-   * Note: Captures optional leading + for international numbers
+   * Matches a failed run did not get to. Missing when it failed before
+   * its matches were known, so a retry has to scan again.
    */
-  phone: /\+?1?[-.\s]?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}\b/g,
+  remaining?: RedactionCandidate[];
+  error?: string;
+}
 
-  /**
-   * Full Social Security Number patterns
-   * Formats covered:
-   * - 123-45-6789
-   * - 123 45 6789
-   * - 123.45.6789
-   * - 123456789 (9 consecutive digits)
-   */
-  ssnFull: /\b\d{3}[-.\s]?\d{2}[-.\s]?\d{4}\b/g,
+/**
+ * The stages of a redaction run, in order
+ */
+export type RunStepId =
+  'prepare' | 'scan' | 'redact' | 'remember' | 'accept' | 'sanitize' | 'banner' | 'profile' | 'finish';
+
+export const RUN_STEPS: RunStepId[] = [
+  'prepare',
+  'scan',
+  'redact',
+  'remember',
+  'accept',
+  'sanitize',
+  'banner',
+  'profile',
+  'finish',
+];
 
-  /**
-   * Masked SSN formats
-   * Formats covered:
-   * - xxxx1234, XXXX1234, ****1234
-   * - xxx-xx-1234, XXX-XX-1234
-   * - *xx-xx-1234
-   */
-  ssnMasked: /\b[xX*]{3,4}[-.\s]?[xX*]{0,2}[-.\s]?\d{4}\b/g,
+/**
+ * How a stage of a run went. `skipped` stages were not needed (or the
+ * run was cancelled); `notRun` ones were never reached because an
+ * earlier stage failed.
+ */
+export interface RunStep {
+  id: RunStepId;
+  status: 'done' | 'failed' | 'skipped' | 'notRun';
+  error?: string;
+}
 
-  /**
-   * Partial SSN - Last 4 digits mentioned in context
-   * Matches patterns like:
-   * - "last four digits ... are 1234"
-   * - "last 4 digits ... 5678"
-   * - "SSN ending in 9012"
-   * - "ends in 3456"
-   */
-  ssnPartialContext: /(?:last\s+(?:four|4)\s+digits?(?:\s+\w+){0,10}\s+(?:are|is|:)?\s*)(\d{4})\b/gi,
-  
-  /**
-   * SSN ending pattern
-   * Matches: "ending in 1234", "ends in 5678"
-   */
-  ssnEnding: /(?:(?:ssn|social\s*security(?:\s*number)?)\s+)?(?:ending|ends)\s+in\s+(\d{4})\b/gi,
-};
+/**
+ * A single redaction, as recorded for the report. The original value is
+ * only kept as a masked preview.
+ */
+export interface RedactionRecord {
+  detector: string;
+  /** Label of the detector or custom rule */
+  label: string;
+  /** What the detector matches, or the custom rule's term or expression */
+  rule: string;
+  location: StoryKind;
+  story: string;
+  paragraph: number;
+  preview: string;
+  style: MarkerStyle;
+  /** The marker that replaced the value */
+  replacement: string;
+  confidence: number;
+  timestamp: string;
+}
 
 /**
- * Result of a redaction operation
+ * Result of restoring tokens from a recovery key
  */
-export interface RedactionResult {
+export interface RestoreResult {
   success: boolean;
-  emailsRedacted: number;
-  phonesRedacted: number;
-  ssnsRedacted: number;
-  totalRedacted: number;
-  trackingEnabled: boolean;
-  headerAdded: boolean;
+  /** Number of token occurrences replaced by their original value */
+  restored: number;
+  /** Tokens from the key that were not found in the document */
+  missing: string[];
   error?: string;
 }
 
 /**
- * Validates if a potential SSN is actually an SSN
- * SSNs have specific rules: 
- * - Area number (first 3 digits) cannot be 000, 666, or 900-999
- * - Group number (middle 2 digits) cannot be 00
- * - Serial number (last 4 digits) cannot be 0000
+ * Options for a redaction run
  */
-function isValidSSN(ssn: string): boolean {
-  const digits = ssn.replace(/\D/g, '');
-  if (digits.length !== 9) return false;
-  
-  const area = parseInt(digits.substring(0, 3), 10);
-  const group = parseInt(digits.substring(3, 5), 10);
-  const serial = parseInt(digits.substring(5, 9), 10);
-  
-  // Invalid area numbers
-  if (area === 0 || area === 666 || area >= 900) return false;
-  // Invalid group number
-  if (group === 0) return false;
-  // Invalid serial number
-  if (serial === 0) return false;
-  
-  return true;
+export interface RedactionOptions extends SanitizeOptions {
+  scope: RedactionScope;
+  tracking: TrackingOptions;
+  banner: BannerOptions;
+  pseudonyms: PseudonymOptions;
+  /** Minimum confidence, from 0 to 1, for a match to be redacted */
+  threshold: number;
+  /** Also find names, places and organisations with the entity model */
+  entities: boolean;
+  /** Name of the policy profile, recorded in the document */
+  profile?: string;
 }
 
 /**
- * Check if Word API version supports Track Changes (1.5+)
+ * The options a dry-run scan needs
  */
-function isTrackChangesSupported(): boolean {
-  return Office.context.requirements.isSetSupported('WordApi', '1.5');
-}
+export type ScanOptions = Pick<RedactionOptions, 'scope' | 'threshold' | 'entities'>;
 
 /**
- * Extract partial SSN (last 4 digits) from contextual mentions
+ * What a dry-run scan found
  */
-function findPartialSSNs(text: string): string[] {
-  const partialSSNs: string[] = [];
-  
-  // Pattern 1: "last four digits ... are XXXX"
-  const contextPattern = /last\s+(?:four|4)\s+digits?(?:\s+\w+){0,10}\s+(?:are|is|:)?\s*(\d{4})\b/gi;
-  let match;
-  while ((match = contextPattern.exec(text)) !== null) {
-    partialSSNs.push(match[1]);
-  }
-  
-  // Pattern 2: "ending in XXXX" or "ends in XXXX"
-  const endingPattern = /(?:ending|ends)\s+in\s+(\d{4})\b/gi;
-  while ((match = endingPattern.exec(text)) !== null) {
-    partialSSNs.push(match[1]);
-  }
-  
-  // Pattern 3: "SSN: XXX-XX-XXXX" or just the last 4 after SSN context
-  const ssnContextPattern = /(?:ssn|social\s*security(?:\s*number)?)[:\s]+(?:\d{3}[-.\s]?\d{2}[-.\s]?)?(\d{4})\b/gi;
-  while ((match = ssnContextPattern.exec(text)) !== null) {
-    partialSSNs.push(match[1]);
-  }
-  
-  return [...new Set(partialSSNs)];
+export interface ScanResult {
+  candidates: RedactionCandidate[];
+  /** Matches left alone because the allow-list covers them */
+  skipped: number;
 }
 
+const DEFAULT_OPTIONS: RedactionOptions = {
+  scope: DOCUMENT_SCOPE,
+  clearProperties: false,
+  removeHiddenText: false,
+  tracking: DEFAULT_TRACKING_OPTIONS,
+  banner: DEFAULT_BANNER_OPTIONS,
+  pseudonyms: DEFAULT_PSEUDONYM_OPTIONS,
+  threshold: DEFAULT_THRESHOLD,
+  entities: false,
+};
+
 /**
- * Main redaction function that processes the entire document
+ * A single match found by the dry-run scan, awaiting review
  */
-export async function redactDocument(): Promise<RedactionResult> {
-  const result: RedactionResult = {
-    success: false,
-    emailsRedacted: 0,
-    phonesRedacted: 0,
-    ssnsRedacted: 0,
-    totalRedacted: 0,
-    trackingEnabled: false,
-    headerAdded: false,
-  };
+export interface RedactionCandidate extends Match {
+  id: number;
+  /** Id of the story holding the match (see stories.ts) */
+  story: string;
+  location: StoryKind;
+  /** Index of the story paragraph holding the match; `offset` is within it */
+  paragraph: number;
+  /** Index of this match among the paragraph's search results for `text` */
+  occurrence: number;
+  /** Text surrounding the match, for display in the review list */
+  contextBefore: string;
+  contextAfter: string;
+}
 
-  try {
-    await Word.run(async (context) => {
-      const document = context.document;
-      const trackChangesSupported = isTrackChangesSupported();
-      
-      // First, DISABLE track changes so redactions appear clean (no strikethrough)
-      // We'll enable it AFTER making changes
-      if (trackChangesSupported) {
-        document.changeTrackingMode = Word.ChangeTrackingMode.off;
-        await context.sync();
-      }
+// Number of characters shown on each side of a match in the review list
+const CONTEXT_LENGTH = 30;
 
-      // Get the document body
-      const body = context.document.body;
-      body.load('text');
-      await context.sync();
+// Paragraphs scanned between progress updates
+const SCAN_CHUNK = 200;
 
-      const originalText = body.text;
-
-      // Count occurrences before redaction
-      result.emailsRedacted = countMatches(originalText, PATTERNS.email);
-      
-      // For phones, we need to be more careful to avoid false positives
-      const phoneMatches = originalText.match(PATTERNS.phone) || [];
-      result.phonesRedacted = phoneMatches.filter(match => {
-        // Filter out matches that are too short (less than 10 digits with area code)
-        const digits = match.replace(/\D/g, '');
-        return digits.length >= 10 && digits.length <= 11;
-      }).length;
-      
-      // For full SSNs, validate each match
-      const ssnFullMatches = originalText.match(PATTERNS.ssnFull) || [];
-      const validFullSSNs = ssnFullMatches.filter(isValidSSN).length;
-      
-      // For masked SSNs (xxxx1234 format)
-      const maskedSSNs = originalText.match(PATTERNS.ssnMasked) || [];
-      
-      // For partial SSNs (last 4 digits in context)
-      const partialSSNs = findPartialSSNs(originalText);
-      result.ssnsRedacted = validFullSSNs + maskedSSNs.length + partialSSNs.length;
-
-      // Perform redactions using Word's search and replace
-
-      // Redact emails
-      await redactEmails(context, body);
-      
-      // Redact phone numbers with validation
-      await redactPhoneNumbers(context, body);
-      
-      // Redact full SSNs with validation
-      await redactFullSSNs(context, body);
-      
-      // Redact masked SSNs (xxxx1234 format)
-      await redactMaskedSSNs(context, body);
-      
-      // Redact partial SSNs (last 4 digits in context)
-      await redactPartialSSNs(context, body, partialSSNs);
-
-      // Add confidential header
-      const header = context.document.sections.getFirst().getHeader(Word.HeaderFooterType.primary);
-      header.insertParagraph('CONFIDENTIAL DOCUMENT', Word.InsertLocation.start);
-      
-      // Style the header
-      const headerParagraph = header.paragraphs.getFirst();
-      headerParagraph.font.bold = true;
-      headerParagraph.font.size = 14;
-      headerParagraph.font.color = '#C00000';
-      headerParagraph.alignment = Word.Alignment.centered;
-      
-      result.headerAdded = true;
+// Matches located and replaced per sync. Word on the web rejects or
+// times out on very large batches, so big documents go in several.
+const REDACT_CHUNK = 150;
 
-      await context.sync();
+/**
+ * A value redacted earlier in this session
+ */
+export interface SessionRedaction {
+  detector: string;
+  value: string;
+}
 
-      // NOW enable Track Changes so future modifications will be tracked
-      // The redactions we just made will appear clean (no strikethrough)
-      if (trackChangesSupported) {
-        document.changeTrackingMode = Word.ChangeTrackingMode.trackAll;
-        result.trackingEnabled = true;
-        await context.sync();
+// What this session redacted, for the verification scan's fragment
+// check. Kept in memory only; original values never go into the document.
+const sessionRedactions: SessionRedaction[] = [];
+
+/**
+ * Runs the built-in and custom detectors over each story's paragraphs
+ * and attaches what the Word layer and the review list need to each
+ * match. When `windows` is given, only those parts of the body's
+ * paragraphs are scanned; offsets stay relative to the whole paragraph.
+ * Matches less confident than `threshold` are left out. `entities`
+ * holds the entity model's matches for each story's paragraphs, and
+ * `allow` collects the matches the allow-list covers.
+ *
+ * Paragraphs are scanned in chunks, reporting progress and giving the
+ * task pane a chance to respond between them.
+ */
+async function findCandidates(
+  storyTexts: Map<Story, string[]>,
+  windows: Map<number, TextWindow[]> | null = null,
+  threshold = DEFAULT_THRESHOLD,
+  entities: Map<Story, Match[][]> = new Map(),
+  allow: AllowFilter = createAllowFilter(),
+  control: RunControl = {}
+): Promise<RedactionCandidate[]> {
+  const candidates: RedactionCandidate[] = [];
+  const detectors = getActiveDetectors();
+  // The policy profile can leave some entity types out
+  const detectorIds = new Set(detectors.map((detector) => detector.id));
+  const total = [...storyTexts.values()].reduce((sum, paragraphs) => sum + paragraphs.length, 0);
+  let done = 0;
+
+  for (const [story, paragraphs] of storyTexts) {
+    for (const [paragraph, text] of paragraphs.entries()) {
+      if (done++ % SCAN_CHUNK === 0) {
+        control.onProgress?.({ stage: 'scanning', done, total });
+        await yieldToUi();
+        control.signal?.throwIfAborted();
       }
 
-      result.totalRedacted = result.emailsRedacted + result.phonesRedacted + result.ssnsRedacted;
-      result.success = true;
-    });
-  } catch (error) {
-    result.error = error instanceof Error ? error.message : 'An unknown error occurred';
-    result.success = false;
+      const scanned =
+        windows && story.kind === 'body' ? (windows.get(paragraph) ?? []) : [{ start: 0, end: text.length }];
+
+      for (const window of scanned) {
+        const modelled = (entities.get(story)?.[paragraph] ?? [])
+          .filter((entity) => detectorIds.has(entity.detector))
+          .filter((entity) => entity.offset >= window.start && entity.offset + entity.text.length <= window.end)
+          .map((entity) => ({ ...entity, offset: entity.offset - window.start }));
+        for (const found of detect(text.substring(window.start, window.end), detectors, threshold, modelled, allow)) {
+          const match = { ...found, offset: found.offset + window.start };
+          const end = match.offset + match.text.length;
+          candidates.push({
+            ...match,
+            id: candidates.length,
+            story: story.id,
+            location: story.kind,
+            paragraph,
+            occurrence: countOccurrences(text.substring(0, match.offset), match.text),
+            contextBefore: collapseWhitespace(text.substring(Math.max(0, match.offset - CONTEXT_LENGTH), match.offset)),
+            contextAfter: collapseWhitespace(text.substring(end, end + CONTEXT_LENGTH)),
+          });
+        }
+      }
+    }
   }
 
-  return result;
+  control.onProgress?.({ stage: 'scanning', done: total, total });
+  return candidates;
 }
 
 /**
- * Counts matches for a given pattern in text
+ * Scans the stories within the scope for candidates. A scope other than
+ * the whole document only covers part of the main body.
  */
-function countMatches(text: string, pattern: RegExp): number {
-  const matches = text.match(pattern);
-  return matches ? matches.length : 0;
+export async function scanStories(
+  context: Word.RequestContext,
+  options: ScanOptions,
+  control: RunControl
+): Promise<ScanResult> {
+  const windows = await resolveScope(context, options.scope);
+  const stories = (await loadStories(context)).filter((story) => windows === null || story.kind === 'body');
+  const storyTexts = await loadStoryTexts(context, stories);
+  const entities = options.entities ? await findStoryEntities(storyTexts, control) : undefined;
+  const allow = createAllowFilter();
+  const candidates = await findCandidates(storyTexts, windows, options.threshold, entities, allow, control);
+  return { candidates, skipped: allow.skipped.length };
 }
 
 /**
- * Redacts emails using Word's search
+ * Runs the entity model over every paragraph in one request, then splits
+ * the results back up by story
  */
-async function redactEmails(
-  context: Word.RequestContext,
-  body: Word.Body
-): Promise<void> {
-  body.load('text');
-  await context.sync();
+async function findStoryEntities(
+  storyTexts: Map<Story, string[]>,
+  control: RunControl
+): Promise<Map<Story, Match[][]>> {
+  const found = await findEntities([...storyTexts.values()].flat(), control);
+  const entities = new Map<Story, Match[][]>();
+  let next = 0;
+  for (const [story, paragraphs] of storyTexts) {
+    entities.set(story, found.slice(next, next + paragraphs.length));
+    next += paragraphs.length;
+  }
+  return entities;
+}
 
-  const text = body.text;
-  const matches = text.match(PATTERNS.email) || [];
-  
-  // Use a Set to avoid duplicate searches
-  const uniqueMatches = [...new Set(matches)];
+/**
+ * Counts non-overlapping occurrences of a literal string, the same way
+ * Word's search() enumerates them
+ */
+function countOccurrences(text: string, search: string): number {
+  let count = 0;
+  let index = text.indexOf(search);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(search, index + search.length);
+  }
+  return count;
+}
 
-  for (const match of uniqueMatches) {
-    const searchResults = body.search(match, {
-      matchCase: false,
-      matchWholeWord: false,
-    });
-    searchResults.load('items');
-    await context.sync();
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+// Longest text Word's search accepts
+export const MAX_SEARCH_LENGTH = 255;
+
+/**
+ * Escapes text for Word's search, where "^" starts a special character
+ * code (e.g. "^p" for a paragraph mark)
+ */
+export function escapeSearchText(text: string): string {
+  return text.replace(/\^/g, '^^');
+}
 
-    for (const item of searchResults.items) {
-      item.insertText(REDACTION_MARKER, Word.InsertLocation.replace);
+/**
+ * Looks up the exact Word range of each candidate in a body story: the
+ * n-th search hit for its text within its own paragraph. Word's search
+ * matches across run and formatting boundaries, so a value that is
+ * partly bold or split by an edit still resolves to a single range, and
+ * identical text elsewhere in the document is never touched.
+ *
+ * All searches are queued and synced together, before any text is
+ * replaced, so occurrence indexes computed from the original text
+ * still line up. Comment candidates have no range and are skipped.
+ * Stories' paragraph collections are loaded into `paragraphs` the first
+ * time they are needed, so repeated calls share them.
+ */
+async function locateCandidates(
+  context: Word.RequestContext,
+  stories: Map<string, Story>,
+  candidates: RedactionCandidate[],
+  paragraphs = new Map<string, Word.ParagraphCollection>()
+): Promise<Map<RedactionCandidate, Word.Range>> {
+  let loading = false;
+  for (const candidate of candidates) {
+    const body = stories.get(candidate.story)?.body;
+    if (body && !paragraphs.has(candidate.story)) {
+      const collection = body.paragraphs;
+      collection.load('items');
+      paragraphs.set(candidate.story, collection);
+      loading = true;
     }
-    await context.sync();
   }
+  if (loading) await context.sync();
+
+  const searches = new Map<string, Word.RangeCollection>();
+  const searchKey = (candidate: RedactionCandidate) => `${candidate.story}:${candidate.paragraph}:${candidate.text}`;
+
+  for (const candidate of candidates) {
+    const paragraph = paragraphs.get(candidate.story)?.items[candidate.paragraph];
+    const key = searchKey(candidate);
+    if (paragraph && !searches.has(key)) {
+      const searchResults = paragraph.search(escapeSearchText(candidate.text), {
+        matchCase: true,
+        matchWholeWord: false,
+      });
+      searchResults.load('items');
+      searches.set(key, searchResults);
+    }
+  }
+  await context.sync();
+
+  const ranges = new Map<RedactionCandidate, Word.Range>();
+  for (const candidate of candidates) {
+    const range = searches.get(searchKey(candidate))?.items[candidate.occurrence];
+    if (range) ranges.set(candidate, range);
+  }
+  return ranges;
 }
 
 /**
- * Redacts phone numbers with additional validation
+ * The redacted header and footer candidates repeated in later sections'
+ * copies that Word did not update with the first: those whose paragraph
+ * still holds the original value at the same offset. Copies linked to
+ * the first now show its marker there instead and are left alone.
  */
-async function redactPhoneNumbers(
+async function unlinkedCopyCandidates(
   context: Word.RequestContext,
-  body: Word.Body
-): Promise<void> {
-  body.load('text');
+  stories: Map<string, Story>,
+  copies: Map<string, Story[]>,
+  redacted: RedactionCandidate[]
+): Promise<RedactionCandidate[]> {
+  const repeated = redacted.flatMap((candidate) =>
+    (copies.get(candidate.story) ?? []).map((copy) => ({ ...candidate, story: copy.id }))
+  );
+  if (repeated.length === 0) return [];
+
+  const copyParagraphs = new Map<string, Word.ParagraphCollection>();
+  for (const candidate of repeated) {
+    const body = stories.get(candidate.story)?.body;
+    if (body && !copyParagraphs.has(candidate.story)) {
+      const collection = body.paragraphs;
+      collection.load('items/text');
+      copyParagraphs.set(candidate.story, collection);
+    }
+  }
   await context.sync();
 
-  const text = body.text;
-  const matches = text.match(PATTERNS.phone) || [];
-  
-  // Filter and deduplicate - require at least 10 digits (with area code)
-  const validMatches = [...new Set(
-    matches.filter(match => {
-      const digits = match.replace(/\D/g, '');
-      return digits.length >= 10 && digits.length <= 11;
-    })
-  )];
-
-  for (const match of validMatches) {
-    const searchResults = body.search(match, {
-      matchCase: true,
-      matchWholeWord: false,
-    });
-    searchResults.load('items');
-    await context.sync();
+  return repeated.filter((candidate) => {
+    const text = copyParagraphs.get(candidate.story)?.items[candidate.paragraph]?.text ?? '';
+    return text.substring(candidate.offset, candidate.offset + candidate.text.length) === candidate.text;
+  });
+}
 
-    for (const item of searchResults.items) {
-      item.insertText(REDACTION_MARKER, Word.InsertLocation.replace);
+/**
+ * Splits candidates into batches of about REDACT_CHUNK, never splitting
+ * a paragraph's matches: their occurrence indexes assume none of the
+ * paragraph has been replaced yet
+ */
+function chunkByParagraph(candidates: RedactionCandidate[]): RedactionCandidate[][] {
+  const chunks: RedactionCandidate[][] = [];
+  let chunk: RedactionCandidate[] = [];
+  let lastParagraph = '';
+  for (const candidate of candidates) {
+    const paragraph = `${candidate.story}:${candidate.paragraph}`;
+    if (chunk.length >= REDACT_CHUNK && paragraph !== lastParagraph) {
+      chunks.push(chunk);
+      chunk = [];
     }
-    await context.sync();
+    chunk.push(candidate);
+    lastParagraph = paragraph;
   }
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
 }
 
 /**
- * Redacts full SSNs (9 digits) with validation
+ * Maps story ids to stories for the current request context
  */
-async function redactFullSSNs(
-  context: Word.RequestContext,
-  body: Word.Body
-): Promise<void> {
-  body.load('text');
-  await context.sync();
+async function loadStoryMap(context: Word.RequestContext): Promise<Map<string, Story>> {
+  const stories = await loadStories(context);
+  return new Map(stories.map((story) => [story.id, story]));
+}
 
-  const text = body.text;
-  const matches = text.match(PATTERNS.ssnFull) || [];
-  
-  // Filter valid SSNs and deduplicate
-  const validSSNs = [...new Set(matches.filter(isValidSSN))];
+/**
+ * Dry-run scan: finds every candidate match within the scope without
+ * touching the document. Cancelling rejects with the signal's reason.
+ */
+export async function scanDocument(
+  options: ScanOptions = DEFAULT_OPTIONS,
+  control: RunControl = {}
+): Promise<ScanResult> {
+  return Word.run((context) => scanStories(context, options, control));
+}
 
-  for (const match of validSSNs) {
-    const searchResults = body.search(match, {
-      matchCase: true,
-      matchWholeWord: false,
-    });
-    searchResults.load('items');
-    await context.sync();
+/**
+ * The values redacted so far in this session
+ */
+export function getSessionRedactions(): readonly SessionRedaction[] {
+  return sessionRedactions;
+}
 
-    for (const item of searchResults.items) {
-      item.insertText(REDACTION_MARKER, Word.InsertLocation.replace);
+/**
+ * Selects a candidate's range in the document so the reviewer can see
+ * it. For a comment, the commented text is selected.
+ */
+export async function selectCandidate(candidate: RedactionCandidate): Promise<void> {
+  await Word.run(async (context) => {
+    const stories = await loadStoryMap(context);
+    const comment = stories.get(candidate.story)?.comment;
+    const range = comment ? comment.getRange() : (await locateCandidates(context, stories, [candidate])).get(candidate);
+    if (!range) {
+      throw new Error('This match could not be found. The document may have changed since the scan.');
     }
+    range.select();
     await context.sync();
+  });
+}
+
+/**
+ * What a run needs to build markers: the chosen styles, the detectors
+ * for their tags, and the run's reversible tokens and pseudonyms
+ */
+interface MarkerContext {
+  styles: Record<string, MarkerStyle>;
+  detectors: Detector[];
+  tokens: TokenIssuer;
+  pseudonyms: Map<string, PseudonymEntry>;
+}
+
+function tagFor(candidate: RedactionCandidate, detectors: Detector[]): string {
+  return detectors.find((detector) => detector.id === candidate.detector)?.tag ?? 'REDACTED';
+}
+
+/**
+ * Builds the marker that replaces a candidate under its detector's style
+ */
+function markerFor(
+  candidate: RedactionCandidate,
+  markers: MarkerContext
+): { text: string; format: MarkerFormat; style: MarkerStyle } {
+  const style = resolveMarkerStyle(markers.styles, candidate.detector);
+  const tag = tagFor(candidate, markers.detectors);
+  let text: string;
+  if (style === 'token') {
+    text = markers.tokens.tokenFor(tag, candidate.text, candidate.detector);
+  } else if (style === 'pseudonym') {
+    text =
+      markers.pseudonyms.get(pseudonymKey(candidate.detector, tag, candidate.text))?.pseudonym ??
+      buildMarker(style, candidate.text, tag);
+  } else {
+    text = buildMarker(style, candidate.text, tag);
   }
+  return { text, format: getMarkerFormat(style), style };
 }
 
 /**
- * Redacts masked SSNs (xxxx1234 format)
+ * Redacts candidates found in comments. Comment text has no ranges to
+ * search, so each comment's content is rewritten with its matches
+ * replaced from last to first, keeping earlier offsets valid. Matches
+ * whose text no longer sits at the scanned offset are skipped.
  */
-async function redactMaskedSSNs(
+async function redactComments(
   context: Word.RequestContext,
-  body: Word.Body
-): Promise<void> {
-  body.load('text');
+  stories: Map<string, Story>,
+  candidates: RedactionCandidate[],
+  replace: (candidate: RedactionCandidate) => string
+): Promise<RedactionCandidate[]> {
+  const byComment = new Map<Word.Comment, RedactionCandidate[]>();
+  for (const candidate of candidates) {
+    const comment = stories.get(candidate.story)?.comment;
+    if (comment) {
+      comment.load('content');
+      byComment.set(comment, [...(byComment.get(comment) ?? []), candidate]);
+    }
+  }
+  if (byComment.size === 0) return [];
   await context.sync();
 
-  const text = body.text;
-  const matches = text.match(PATTERNS.ssnMasked) || [];
-  
-  // Deduplicate
-  const uniqueMatches = [...new Set(matches)];
-
-  for (const match of uniqueMatches) {
-    const searchResults = body.search(match, {
-      matchCase: false,
-      matchWholeWord: false,
-    });
-    searchResults.load('items');
-    await context.sync();
+  const redacted: RedactionCandidate[] = [];
+  for (const [comment, matches] of byComment) {
+    let content = comment.content;
+    for (const candidate of [...matches].sort((a, b) => b.offset - a.offset)) {
+      const end = candidate.offset + candidate.text.length;
+      if (content.substring(candidate.offset, end) !== candidate.text) continue;
+      content = content.substring(0, candidate.offset) + replace(candidate) + content.substring(end);
+      redacted.push(candidate);
+    }
+    comment.content = content;
+  }
+  return redacted;
+}
 
-    for (const item of searchResults.items) {
-      item.insertText(REDACTION_MARKER, Word.InsertLocation.replace);
+/**
+ * Main redaction function. Redacts the given candidates (typically those
+ * approved in the review list), or every match within the scope when
+ * no candidates are passed, then runs the sanitize stage.
+ *
+ * Matches are replaced in chunks of a few syncs each. When the run is
+ * cancelled it stops after the current chunk, keeps what was redacted
+ * and skips the sanitize stage and the banner.
+ *
+ * Each stage's outcome is recorded in `steps`. When a stage fails, the
+ * redactions already synced stay in place and are counted, the matches
+ * not yet redacted are kept in `remaining` for retryRedaction(), and the
+ * user's Track Changes mode is put back.
+ */
+export async function redactDocument(
+  candidates?: RedactionCandidate[],
+  options: RedactionOptions = DEFAULT_OPTIONS,
+  control: RunControl = {}
+): Promise<RedactionResult> {
+  const result: RedactionResult = {
+    success: false,
+    scope: options.scope,
+    counts: {},
+    locationCounts: {},
+    totalRedacted: 0,
+    records: [],
+    trackingEnabled: false,
+    tracking: { supported: isTrackChangesSupported(), redactions: 'untracked', header: 'untracked' },
+    headerAdded: false,
+    steps: [],
+    remaining: candidates,
+  };
+  const trackingOptions = options.tracking;
+
+  const runStep = async <T>(id: RunStepId, task: () => Promise<T>): Promise<T> => {
+    try {
+      const value = await task();
+      result.steps.push({ id, status: 'done' });
+      return value;
+    } catch (error) {
+      result.steps.push({ id, status: 'failed', error: describeError(error) });
+      throw error;
     }
-    await context.sync();
+  };
+  const skipStep = (id: RunStepId) => result.steps.push({ id, status: 'skipped' });
+
+  try {
+    await Word.run(async (context) => {
+      const startedAt = new Date();
+      const trackChangesSupported = result.tracking.supported;
+
+      // Read the profile the last run recorded before sanitizing can
+      // touch the properties, remember the user's Track Changes mode,
+      // then switch to the mode requested for the redactions
+      await runStep('prepare', async () => {
+        result.previousProfile = await readRecordedProfile(context);
+        if (trackChangesSupported) {
+          result.tracking.originalMode = await readTrackingMode(context);
+          await setTracking(context, trackingOptions.redactions !== 'clean');
+        }
+      });
+
+      let toRedact = candidates;
+      if (toRedact) {
+        skipStep('scan');
+      } else {
+        const scan = await runStep('scan', () => scanStories(context, options, control));
+        toRedact = scan.candidates;
+        result.skipped = scan.skipped;
+      }
+      result.remaining = toRedact;
+      result.totalCandidates = toRedact.length;
+      const stories = await loadStoryMap(context);
+      const styles = loadMarkerStyles();
+      const detectors = getActiveDetectors();
+
+      // Pseudonyms are assigned up front, in document order, so the
+      // numbering follows the order values first appear
+      const pseudonymized = toRedact.filter(
+        (candidate) => resolveMarkerStyle(styles, candidate.detector) === 'pseudonym'
+      );
+      const pseudonyms = await assignPseudonyms(
+        pseudonymized.map((candidate) => ({
+          detector: candidate.detector,
+          tag: tagFor(candidate, detectors),
+          value: candidate.text,
+        })),
+        options.pseudonyms
+      );
+      const markers: MarkerContext = { styles, detectors, tokens: createTokenIssuer(loadTokenCounters()), pseudonyms };
+
+      const record = (candidate: RedactionCandidate) => {
+        result.counts[candidate.detector] = (result.counts[candidate.detector] ?? 0) + 1;
+        result.locationCounts[candidate.location] = (result.locationCounts[candidate.location] ?? 0) + 1;
+
+        const detector = detectors.find((active) => active.id === candidate.detector);
+        const marker = markerFor(candidate, markers);
+        result.records.push({
+          detector: candidate.detector,
+          label: detector?.label ?? candidate.detector,
+          rule: detector?.description ?? candidate.detector,
+          location: candidate.location,
+          story: candidate.story,
+          paragraph: candidate.paragraph,
+          preview: maskedPreview(candidate.text),
+          style: marker.style,
+          replacement: marker.text,
+          confidence: candidate.confidence,
+          timestamp: new Date().toISOString(),
+        });
+      };
+
+      // Replace each match at its own range, a chunk at a time: one sync
+      // to locate the chunk's matches and one to write its markers.
+      // Matches that can no longer be found (the document changed after
+      // the scan) are skipped. A chunk only counts once its sync succeeds.
+      const markerTexts = new Set<string>();
+      const redacted: RedactionCandidate[] = [];
+      const paragraphs = new Map<string, Word.ParagraphCollection>();
+      const writeMarkers = async (batch: RedactionCandidate[]): Promise<RedactionCandidate[]> => {
+        const written: RedactionCandidate[] = [];
+        const ranges = await locateCandidates(context, stories, batch, paragraphs);
+        for (const [candidate, range] of ranges) {
+          const marker = markerFor(candidate, markers);
+          const inserted = range.insertText(marker.text, Word.InsertLocation.replace);
+          if (marker.format.highlightColor) inserted.font.highlightColor = marker.format.highlightColor;
+          if (marker.format.fontColor) inserted.font.color = marker.format.fontColor;
+          markerTexts.add(marker.text);
+          written.push(candidate);
+        }
+        return written;
+      };
+
+      // Repeated headers and footers were scanned once; find their later
+      // copies before anything changes, while the texts still match
+      const copies = await findHeaderFooterCopies(context, [...stories.values()]);
+      try {
+        await runStep('redact', async () => {
+          const chunks = chunkByParagraph(toRedact);
+          let processed = 0;
+          for (const chunk of chunks) {
+            if (control.signal?.aborted) {
+              result.cancelled = true;
+              break;
+            }
+            control.onProgress?.({ stage: 'redacting', done: processed, total: toRedact.length });
+
+            const written = await writeMarkers(chunk);
+
+            // Comments take plain text, so marker formatting doesn't apply
+            written.push(
+              ...(await redactComments(context, stories, chunk, (candidate) => markerFor(candidate, markers).text))
+            );
+            await context.sync();
+
+            written.forEach(record);
+            redacted.push(...written);
+            sessionRedactions.push(
+              ...written.map((candidate) => ({ detector: candidate.detector, value: candidate.text }))
+            );
+            processed += chunk.length;
+            result.remaining = toRedact.slice(processed);
+            await yieldToUi();
+          }
+
+          // A copy linked to the first header changed along with it; an
+          // unlinked copy still holds the value at the same offset
+          if (!result.cancelled) {
+            const written = await writeMarkers(await unlinkedCopyCandidates(context, stories, copies, redacted));
+            await context.sync();
+            written.forEach(record);
+            redacted.push(...written);
+            sessionRedactions.push(
+              ...written.map((candidate) => ({ detector: candidate.detector, value: candidate.text }))
+            );
+          }
+          control.onProgress?.({ stage: 'finishing', done: processed, total: toRedact.length });
+        });
+      } finally {
+        // Hand the token mapping back so it can be saved as a recovery
+        // key, and keep the token numbering and fake values for later
+        // runs. Tokens already written stay recoverable even if the run
+        // failed.
+        const issued = markers.tokens.entries();
+        if (issued.length > 0) {
+          result.recovery = { createdAt: new Date().toISOString(), entries: issued };
+        }
+        if (pseudonyms.size > 0) {
+          result.pseudonyms = [...pseudonyms.values()];
+        }
+        if (result.recovery || result.pseudonyms) {
+          // A failed save is reported as its own step; it must neither
+          // replace an error from the redactions nor fail a run whose
+          // redactions went through
+          await runStep('remember', async () => {
+            if (result.recovery) await saveTokenCounters(markers.tokens.counters());
+            if (result.pseudonyms) await rememberFakeValues(result.pseudonyms);
+          }).catch(() => undefined);
+        } else {
+          skipStep('remember');
+        }
+      }
+
+      const redactedValues = [...new Set(redacted.map((candidate) => candidate.text))];
+
+      if (trackChangesSupported && trackingOptions.redactions !== 'clean') {
+        result.tracking.redactions = 'tracked';
+      }
+      if (trackChangesSupported && trackingOptions.redactions === 'trackedThenAccept' && !result.cancelled) {
+        if (isAcceptChangesSupported()) {
+          await runStep('accept', async () => {
+            const bodies = [...stories.values()].flatMap((story) => (story.body ? [story.body] : []));
+            await acceptRunChanges(context, bodies, startedAt, new Set([...redactedValues, ...markerTexts]));
+          });
+          result.tracking.redactions = 'accepted';
+        } else {
+          result.tracking.note =
+            'Accepting changes needs a newer version of Word (WordApi 1.6), so the redactions were left as tracked changes.';
+          skipStep('accept');
+        }
+      } else {
+        skipStep('accept');
+      }
+
+      if (result.cancelled) {
+        skipStep('sanitize');
+        skipStep('banner');
+        skipStep('profile');
+      } else {
+        // Sanitize metadata and hidden content, checking leftovers against
+        // the values that were just redacted. Tracking is off so removed
+        // hidden text doesn't survive as a tracked deletion.
+        result.sanitize = await runStep('sanitize', async () => {
+          if (trackChangesSupported) {
+            await setTracking(context, false);
+          }
+          return sanitizeDocument(context, redactedValues, options);
+        });
+
+        // Add or update the classification banner, tracked or not as requested
+        result.banner = await runStep('banner', async () => {
+          if (trackChangesSupported) {
+            await setTracking(context, trackingOptions.header === 'tracked');
+          }
+          return applyBanner(context, options.banner);
+        });
+        result.headerAdded = result.banner.inserted + result.banner.updated > 0;
+        if (trackChangesSupported && trackingOptions.header === 'tracked') {
+          result.tracking.header = 'tracked';
+        }
+
+        await runStep('profile', () => recordProfile(context, options.profile));
+        result.profile = options.profile;
+      }
+
+      // Leave Track Changes on so future modifications are tracked, or
+      // put back the user's own setting
+      if (trackChangesSupported) {
+        await runStep('finish', async () => {
+          const originalMode = result.tracking.originalMode ?? Word.ChangeTrackingMode.off;
+          context.document.changeTrackingMode = trackingOptions.restoreOriginal
+            ? (originalMode as Word.ChangeTrackingMode)
+            : Word.ChangeTrackingMode.trackAll;
+          await context.sync();
+          result.tracking.finalMode = await readTrackingMode(context);
+          result.trackingEnabled = result.tracking.finalMode !== Word.ChangeTrackingMode.off;
+        });
+      } else {
+        skipStep('finish');
+      }
+
+      result.remaining = undefined;
+      result.success = true;
+    });
+  } catch (error) {
+    result.error = describeError(error);
+    result.success = false;
+    const reached = new Set(result.steps.map((step) => step.id));
+    result.steps.push(...RUN_STEPS.filter((id) => !reached.has(id)).map((id): RunStep => ({ id, status: 'notRun' })));
+    await rollBackTracking(result);
   }
+
+  result.totalRedacted = Object.values(result.counts).reduce((sum, count) => sum + count, 0);
+  return result;
 }
 
 /**
- * Redacts partial SSNs (last 4 digits mentioned in context)
+ * After a failed run, puts the user's Track Changes mode back as it was
+ * before the run, in a fresh request since the failed one may be
+ * unusable. The outcome is noted in the result's tracking report.
  */
-async function redactPartialSSNs(
-  context: Word.RequestContext,
-  body: Word.Body,
-  partialSSNs: string[]
-): Promise<void> {
-  // For each partial SSN found in context, search and redact just the 4 digits
-  for (const digits of partialSSNs) {
-    // Search for the exact 4-digit sequence
-    const searchResults = body.search(digits, {
-      matchCase: true,
-      matchWholeWord: true,
+async function rollBackTracking(result: RedactionResult): Promise<void> {
+  const originalMode = result.tracking.originalMode;
+  if (!result.tracking.supported || originalMode === undefined) return;
+
+  try {
+    await Word.run(async (context) => {
+      context.document.changeTrackingMode = originalMode as Word.ChangeTrackingMode;
+      await context.sync();
+      result.tracking.finalMode = await readTrackingMode(context);
+      result.trackingEnabled = result.tracking.finalMode !== Word.ChangeTrackingMode.off;
     });
-    searchResults.load('items');
-    await context.sync();
+    result.tracking.note = 'Track Changes was put back to how it was before the run.';
+  } catch (error) {
+    result.tracking.note = `Track Changes could not be put back to how it was before the run: ${describeError(error)}`;
+  }
+}
 
-    for (const item of searchResults.items) {
-      item.insertText(REDACTION_MARKER, Word.InsertLocation.replace);
-    }
-    await context.sync();
+/**
+ * Retries what a failed run did not finish. Its remaining matches are
+ * found again by a fresh scan, since earlier redactions in the same
+ * paragraphs shift where they sit; when the run failed before its
+ * matches were known, everything in the scope is scanned and redacted.
+ * The stages after redaction (sanitize, banner, ...) run again either way.
+ */
+export async function retryRedaction(
+  failed: RedactionResult,
+  options: RedactionOptions = DEFAULT_OPTIONS,
+  control: RunControl = {}
+): Promise<RedactionResult> {
+  if (!failed.remaining) return redactDocument(undefined, options, control);
+
+  // Match by paragraph and text; each remaining match claims one found
+  const wanted = new Map<string, number>();
+  const keyOf = (candidate: RedactionCandidate) => `${candidate.story}:${candidate.paragraph}:${candidate.text}`;
+  for (const candidate of failed.remaining) {
+    wanted.set(keyOf(candidate), (wanted.get(keyOf(candidate)) ?? 0) + 1);
+  }
+
+  const { candidates } = await scanDocument({ ...options, scope: DOCUMENT_SCOPE }, control);
+  const remaining = candidates.filter((candidate) => {
+    const left = wanted.get(keyOf(candidate)) ?? 0;
+    if (left === 0) return false;
+    wanted.set(keyOf(candidate), left - 1);
+    return true;
+  });
+  return redactDocument(remaining, options, control);
+}
+
+/**
+ * Puts original values back in place of the tokens listed in a recovery
+ * key, in every story of the document. Each token is searched for as
+ * exact text; comments have their content rewritten.
+ */
+export async function restoreDocument(key: RecoveryKey): Promise<RestoreResult> {
+  const result: RestoreResult = { success: false, restored: 0, missing: [] };
+
+  try {
+    await Word.run(async (context) => {
+      const stories = [...(await loadStoryMap(context)).values()];
+      const found = new Set<string>();
+
+      // Queue every search before replacing anything
+      const searches: { entry: RecoveryKey['entries'][number]; results: Word.RangeCollection }[] = [];
+      for (const story of stories) {
+        if (!story.body) continue;
+        for (const entry of key.entries) {
+          const results = story.body.search(escapeSearchText(entry.token), { matchCase: true, matchWholeWord: false });
+          results.load('items');
+          searches.push({ entry, results });
+        }
+      }
+      const comments = stories.flatMap((story) => (story.comment ? [story.comment] : []));
+      comments.forEach((comment) => comment.load('content'));
+      await context.sync();
+
+      for (const { entry, results } of searches) {
+        for (const range of results.items) {
+          range.insertText(entry.original, Word.InsertLocation.replace);
+          found.add(entry.token);
+          result.restored++;
+        }
+      }
+
+      for (const comment of comments) {
+        let content = comment.content;
+        for (const entry of key.entries) {
+          const occurrences = countOccurrences(content, entry.token);
+          if (occurrences === 0) continue;
+          content = content.split(entry.token).join(entry.original);
+          found.add(entry.token);
+          result.restored += occurrences;
+        }
+        if (content !== comment.content) comment.content = content;
+      }
+      await context.sync();
+
+      result.missing = key.entries.map((entry) => entry.token).filter((token) => !found.has(token));
+      result.success = true;
+    });
+  } catch (error) {
+    result.error = describeError(error);
+    result.success = false;
   }
+
+  return result;
 }
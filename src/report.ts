@@ -0,0 +1,224 @@
+/**
+ * Redaction Report
+ *
+ * Builds a durable record of a redaction run from its result and
+ * formats it as JSON, CSV or a printable HTML page. Original values only
+ * appear as masked previews.
+ */
+
+import { RedactionRecord, RedactionResult } from './redaction';
+import { BannerReport } from './banner';
+import { TrackingReport } from './tracking';
+import { STORY_LABELS, StoryKind } from './stories';
+import { escapeHtml } from './html';
+
+export type ReportFormat = 'json' | 'csv' | 'html';
+
+/**
+ * Who ran the redaction, on what, and over which part of the document
+ */
+export interface ReportContext {
+  document: string;
+  user: string;
+  scope: string;
+}
+
+export interface RedactionReport extends ReportContext {
+  generatedAt: string;
+  totalRedacted: number;
+  /** Redactions per detector or custom rule label */
+  counts: Record<string, number>;
+  locations: Partial<Record<StoryKind, number>>;
+  tracking: TrackingReport;
+  banner?: BannerReport;
+  sanitize?: {
+    /** Names of the document properties found, and whether each was cleared */
+    properties: { name: string; cleared: boolean }[];
+    hiddenTextRanges: number;
+    hiddenTextRemoved: boolean;
+    warnings: string[];
+  };
+  records: RedactionRecord[];
+}
+
+/**
+ * A formatted report, ready to download
+ */
+export interface ReportFile {
+  name: string;
+  contents: string;
+  mimeType: string;
+}
+
+// Columns of the CSV export, in order
+const CSV_COLUMNS: (keyof RedactionRecord)[] = [
+  'timestamp',
+  'detector',
+  'label',
+  'rule',
+  'location',
+  'story',
+  'paragraph',
+  'preview',
+  'style',
+  'replacement',
+  'confidence',
+];
+
+/**
+ * Name of the open document, from its URL; empty for a new, unsaved one
+ */
+export function currentDocumentName(): string {
+  const url = Office.context.document.url ?? '';
+  return decodeURIComponent(url.split(/[\\/]/).pop() ?? '');
+}
+
+/**
+ * Builds the report for a finished run
+ */
+export function buildReport(result: RedactionResult, context: ReportContext): RedactionReport {
+  const counts: Record<string, number> = {};
+  for (const record of result.records) {
+    counts[record.label] = (counts[record.label] ?? 0) + 1;
+  }
+
+  return {
+    ...context,
+    generatedAt: new Date().toISOString(),
+    totalRedacted: result.totalRedacted,
+    counts,
+    locations: result.locationCounts,
+    tracking: result.tracking,
+    banner: result.banner,
+    sanitize: result.sanitize && {
+      // Property values are left out: they are what was being removed
+      properties: result.sanitize.properties.map(({ name, cleared }) => ({ name, cleared })),
+      hiddenTextRanges: result.sanitize.hiddenTextRanges,
+      hiddenTextRemoved: result.sanitize.hiddenTextRemoved,
+      warnings: result.sanitize.warnings,
+    },
+    records: result.records,
+  };
+}
+
+/**
+ * Formats a report for download
+ */
+export function formatReport(report: RedactionReport, format: ReportFormat): ReportFile {
+  const baseName = `redaction-report-${report.generatedAt.substring(0, 10)}`;
+  switch (format) {
+    case 'csv':
+      return { name: `${baseName}.csv`, contents: reportToCsv(report), mimeType: 'text/csv' };
+    case 'html':
+      return { name: `${baseName}.html`, contents: reportToHtml(report), mimeType: 'text/html' };
+    default:
+      return { name: `${baseName}.json`, contents: JSON.stringify(report, null, 2), mimeType: 'application/json' };
+  }
+}
+
+/**
+ * One row per redaction, with the document and user repeated on each
+ * row so rows stay meaningful when reports are combined
+ */
+function reportToCsv(report: RedactionReport): string {
+  const header = ['document', 'user', ...CSV_COLUMNS];
+  const rows = report.records.map((record) => [
+    report.document,
+    report.user,
+    ...CSV_COLUMNS.map((column) => String(record[column])),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Quotes a CSV cell when needed, and defuses text a spreadsheet would
+ * run as a formula
+ */
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * A standalone HTML page laid out for printing
+ */
+function reportToHtml(report: RedactionReport): string {
+  const row = (label: string, value: string) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+  const locations = (Object.keys(report.locations) as StoryKind[])
+    .map((kind) => `${STORY_LABELS[kind]} ${report.locations[kind]}`)
+    .join(', ');
+  const tracking = report.tracking.supported
+    ? `Redactions ${report.tracking.redactions}, header ${report.tracking.header}; Track Changes ${report.tracking.originalMode ?? '?'} before, ${report.tracking.finalMode ?? '?'} after`
+    : 'Not supported by this version of Word';
+  const banner = report.banner
+    ? `${report.banner.level}: ${report.banner.inserted} inserted, ${report.banner.updated} updated, ${report.banner.removed} removed`
+    : 'Not applied';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Redaction report – ${escapeHtml(report.document || 'Untitled document')}</title>
+<style>
+  body { font: 12px/1.4 system-ui, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 12px; }
+  h2 { font-size: 14px; margin: 20px 0 8px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f2f2f2; }
+  .summary th { width: 30%; }
+  code { font-family: ui-monospace, Consolas, monospace; }
+  @media print { body { margin: 0; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Redaction report</h1>
+<table class="summary">
+  ${row('Document', report.document || 'Untitled document')}
+  ${row('Prepared by', report.user || 'Not given')}
+  ${row('Generated', report.generatedAt)}
+  ${row('Scope', report.scope)}
+  ${row('Redactions', String(report.totalRedacted))}
+  ${row(
+    'By type',
+    Object.entries(report.counts)
+      .map(([label, count]) => `${label} ${count}`)
+      .join(', ')
+  )}
+  ${row('By location', locations)}
+  ${row('Track Changes', tracking + (report.tracking.note ? `. ${report.tracking.note}` : ''))}
+  ${row('Classification banner', banner)}
+  ${report.sanitize ? row('Document properties', report.sanitize.properties.map((property) => `${property.name}${property.cleared ? ' (cleared)' : ''}`).join(', ') || 'None found') : ''}
+  ${report.sanitize ? row('Hidden text', `${report.sanitize.hiddenTextRanges} passage(s)${report.sanitize.hiddenTextRemoved ? ', removed' : ''}`) : ''}
+</table>
+${
+  report.sanitize?.warnings.length
+    ? `
+<h2>Warnings</h2>
+<ul>${report.sanitize.warnings.map((warning) => `<li>${escapeHtml(warning)}</li>`).join('')}</ul>
+`
+    : ''
+}
+<h2>Redactions</h2>
+<table>
+  <tr><th>#</th><th>Time</th><th>Type</th><th>Rule</th><th>Location</th><th>Paragraph</th><th>Preview</th><th>Replaced with</th></tr>
+  ${report.records
+    .map(
+      (record, index) => `
+  <tr>
+    <td>${index + 1}</td>
+    <td>${escapeHtml(record.timestamp)}</td>
+    <td>${escapeHtml(record.label)}</td>
+    <td>${escapeHtml(record.rule)}</td>
+    <td>${escapeHtml(STORY_LABELS[record.location])}</td>
+    <td>${record.paragraph + 1}</td>
+    <td><code>${escapeHtml(record.preview)}</code></td>
+    <td><code>${escapeHtml(record.replacement)}</code></td>
+  </tr>`
+    )
+    .join('')}
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,73 @@
+/**
+ * Report Export Panel
+ *
+ * Task pane card, shown after a run, for downloading the redaction
+ * report as JSON, CSV or printable HTML.
+ */
+
+import { RedactionResult } from './redaction';
+import { buildReport, currentDocumentName, formatReport, ReportFormat } from './report';
+import { downloadFile, escapeHtml } from './html';
+
+// The preparer's name is remembered per machine in local storage rather
+// than in the document settings, so it never travels with the document
+const USER_KEY = 'redaction.reportUser';
+
+/**
+ * Append the report export card for a finished run
+ */
+export function renderReportExport(container: HTMLElement, result: RedactionResult, scope: string): void {
+  const card = document.createElement('div');
+  card.className = 'info-card status-followup';
+  card.innerHTML = `
+    <h2>Redaction report</h2>
+    <form class="rule-form" novalidate>
+      <input name="user" class="rule-input" placeholder="Prepared by" value="${escapeHtml(loadUser())}" autocomplete="name" />
+      <div class="rule-row">
+        <button type="button" class="secondary-btn" data-format="json">JSON</button>
+        <button type="button" class="secondary-btn" data-format="csv">CSV</button>
+        <button type="button" class="secondary-btn" data-format="html">Printable HTML</button>
+      </div>
+      <div class="rule-error" role="alert"></div>
+    </form>
+  `;
+  container.appendChild(card);
+
+  const form = card.querySelector<HTMLFormElement>('.rule-form');
+  if (!form) return;
+  const userInput = form.elements.namedItem('user') as HTMLInputElement;
+  const errorBox = form.querySelector<HTMLElement>('.rule-error');
+
+  for (const button of form.querySelectorAll<HTMLButtonElement>('[data-format]')) {
+    button.addEventListener('click', () => {
+      const user = userInput.value.trim();
+      saveUser(user);
+      try {
+        const report = buildReport(result, { document: currentDocumentName(), user, scope });
+        const file = formatReport(report, button.dataset.format as ReportFormat);
+        downloadFile(file.name, file.contents, file.mimeType);
+        if (errorBox) errorBox.textContent = '';
+      } catch (error) {
+        if (errorBox) {
+          errorBox.textContent = `Could not export the report: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+    });
+  }
+}
+
+function loadUser(): string {
+  try {
+    return localStorage.getItem(USER_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function saveUser(user: string): void {
+  try {
+    localStorage.setItem(USER_KEY, user);
+  } catch {
+    // Storage can be unavailable in some hosts; the name is just not remembered
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Custom Rules
+ *
+ * User-defined literal terms (client names, codenames, matter numbers)
+ * and regular expressions that run next to the built-in detectors.
+ * Rules are saved per user in local storage, never in the document: a
+ * rule's term is exactly what it redacts, so a redacted copy carrying
+ * the rules would still carry the values.
+ */
+
+import { Detector, DETECTORS } from './detectors';
+import { isInRegions, loadRegions } from './locales';
+import { ENTITY_DETECTORS } from './ner';
+import { isInProfile, loadActiveProfile } from './profiles';
+import { getSetting, removeSetting } from './settings';
+
+export interface CustomRule {
+  id: string;
+  kind: 'term' | 'regex';
+  label: string;
+  /** The literal term, or the regular expression source */
+  value: string;
+  caseSensitive: boolean;
+  /** Only match the term as a whole word (terms only) */
+  wholeWord: boolean;
+}
+
+// Local storage key the rules are stored under. Earlier versions kept
+// them in the document settings under the same key; those are carried
+// over and removed from the document on the next save.
+const STORAGE_KEY = 'redaction.customRules';
+const LEGACY_SETTINGS_KEY = 'redaction.customRules';
+
+/**
+ * Escapes a literal term for use inside a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the global pattern a rule scans with
+ */
+function buildPattern(rule: CustomRule): RegExp {
+  const flags = rule.caseSensitive ? 'g' : 'gi';
+  if (rule.kind === 'regex') {
+    return new RegExp(rule.value, flags);
+  }
+
+  // Lookarounds instead of \b so terms that start or end with
+  // punctuation (e.g. "Matter #42") still honour whole-word matching
+  const term = escapeRegExp(rule.value);
+  return new RegExp(rule.wholeWord ? `(?<!\\w)${term}(?!\\w)` : term, flags);
+}
+
+/**
+ * Checks a rule before it is saved or used
+ * Returns an error message, or null if the rule is valid
+ */
+export function validateRule(rule: CustomRule): string | null {
+  if (!rule.label.trim()) return 'Give the rule a label.';
+  if (!rule.value.trim()) {
+    return rule.kind === 'term' ? 'Enter a term to redact.' : 'Enter a regular expression.';
+  }
+
+  let pattern: RegExp;
+  try {
+    pattern = buildPattern(rule);
+  } catch (error) {
+    return `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  // A pattern that matches empty text would flag every position
+  if (pattern.test('')) return 'The expression must not match empty text.';
+  return null;
+}
+
+/**
+ * Wraps a rule as a detector so the engine can run it like a built-in
+ */
+export function ruleToDetector(rule: CustomRule): Detector {
+  return {
+    id: rule.id,
+    label: rule.label,
+    // Reports show the description, so it names the rule rather than
+    // repeating the term it redacts
+    description: `${rule.kind === 'term' ? 'Custom term' : 'Custom pattern'}: ${rule.label.trim()}`,
+    tag:
+      rule.label
+        .trim()
+        .toUpperCase()
+        .replace(/[^A-Z0-9]+/g, '_')
+        .replace(/^_|_$/g, '') || 'CUSTOM',
+    pattern: buildPattern(rule),
+    // The user asked for exactly these values, so there is no doubt
+    confidence: 1,
+  };
+}
+
+/**
+ * Creates a unique id for a new rule
+ */
+export function createRuleId(): string {
+  return `custom-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+}
+
+function loadStoredRules(): CustomRule[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as unknown;
+    return Array.isArray(saved) ? (saved as CustomRule[]) : [];
+  } catch {
+    // Storage can be unavailable in some hosts, or hold something unreadable
+    return [];
+  }
+}
+
+function loadLegacyRules(): CustomRule[] {
+  const saved = getSetting<CustomRule[]>(LEGACY_SETTINGS_KEY, []);
+  return Array.isArray(saved) ? saved : [];
+}
+
+/**
+ * Reads the user's saved rules, with any an earlier version left in
+ * the document
+ */
+export function loadRules(): CustomRule[] {
+  const stored = loadStoredRules();
+  const ids = new Set(stored.map((rule) => rule.id));
+  return [...stored, ...loadLegacyRules().filter((rule) => !ids.has(rule.id))];
+}
+
+/**
+ * Saves the rules into local storage, and removes any rules an earlier
+ * version left in the document
+ */
+export async function saveRules(rules: CustomRule[]): Promise<void> {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  if (loadLegacyRules().length > 0) await removeSetting(LEGACY_SETTINGS_KEY);
+}
+
+/**
+ * Removes rules an earlier version left in the document, keeping them
+ * for this user, so a redacted copy does not carry the redacted terms
+ */
+export async function removeDocumentRules(): Promise<void> {
+  if (loadLegacyRules().length === 0) return;
+  await saveRules(loadRules());
+}
+
+/**
+ * Built-in detectors for the selected regions and policy profile, the
+ * entity model's detectors and every valid saved rule. Custom rules come last so a
+ * term inside a larger match (e.g. a client name in an email address)
+ * doesn't split it.
+ */
+export function getActiveDetectors(): Detector[] {
+  const regions = loadRegions();
+  const profile = loadActiveProfile();
+  const custom = loadRules()
+    .filter((rule) => validateRule(rule) === null)
+    .map(ruleToDetector);
+  return [
+    ...DETECTORS.filter((detector) => isInRegions(detector, regions) && isInProfile(detector, profile)),
+    ...ENTITY_DETECTORS.filter((detector) => isInProfile(detector, profile)),
+    ...custom,
+  ];
+}
@@ -0,0 +1,127 @@
+/**
+ * Custom Rules Panel
+ *
+ * Task pane card for managing the custom terms and regular expressions
+ * defined in rules.ts.
+ */
+
+import { escapeHtml } from './html';
+import { createRuleId, CustomRule, loadRules, saveRules, validateRule } from './rules';
+
+/**
+ * Render the rules card into the container and wire up its form.
+ * `onChange` runs after the saved rules change.
+ */
+export function renderRulesPanel(container: HTMLElement, onChange?: () => void): void {
+  const rules = loadRules();
+
+  container.innerHTML = `
+    <h2>Custom rules</h2>
+    ${
+      rules.length > 0
+        ? `
+      <ul class="rule-list">
+        ${rules
+          .map(
+            (rule) => `
+          <li class="rule-item">
+            <div class="rule-text">
+              <span class="rule-label">${escapeHtml(rule.label)}</span>
+              <span class="rule-value">${escapeHtml(describeRule(rule))}</span>
+            </div>
+            <button class="rule-delete" data-id="${escapeHtml(rule.id)}" title="Remove rule">&times;</button>
+          </li>
+        `
+          )
+          .join('')}
+      </ul>
+    `
+        : '<p class="rule-empty">No custom rules. Add client names, codenames or patterns to redact. Rules are saved on this computer, never in the document.</p>'
+    }
+    <form class="rule-form" novalidate>
+      <div class="rule-row">
+        <select name="kind" class="rule-input rule-kind">
+          <option value="term">Term</option>
+          <option value="regex">Regex</option>
+        </select>
+        <input name="value" class="rule-input" placeholder="Term to redact" autocomplete="off" />
+      </div>
+      <input name="label" class="rule-input" placeholder="Label, e.g. Client names" autocomplete="off" />
+      <div class="rule-row">
+        <label class="option-toggle"><input type="checkbox" name="caseSensitive" /> <span>Match case</span></label>
+        <label class="option-toggle"><input type="checkbox" name="wholeWord" checked /> <span>Whole word</span></label>
+      </div>
+      <div class="rule-error" role="alert"></div>
+      <button type="submit" class="secondary-btn">Add rule</button>
+    </form>
+  `;
+
+  const form = container.querySelector<HTMLFormElement>('.rule-form');
+  if (!form) return;
+  const errorBox = form.querySelector<HTMLElement>('.rule-error');
+  const field = <T extends HTMLElement>(name: string) => form.elements.namedItem(name) as T;
+
+  // Whole-word matching only applies to literal terms
+  field<HTMLSelectElement>('kind').addEventListener('change', () => {
+    const isRegex = field<HTMLSelectElement>('kind').value === 'regex';
+    field<HTMLInputElement>('wholeWord').disabled = isRegex;
+    field<HTMLInputElement>('value').placeholder = isRegex ? 'Regular expression, e.g. M-\\d{5}' : 'Term to redact';
+  });
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    const kind = field<HTMLSelectElement>('kind').value === 'regex' ? 'regex' : 'term';
+    const rule: CustomRule = {
+      id: createRuleId(),
+      kind,
+      label: field<HTMLInputElement>('label').value.trim(),
+      value: kind === 'term' ? field<HTMLInputElement>('value').value.trim() : field<HTMLInputElement>('value').value,
+      caseSensitive: field<HTMLInputElement>('caseSensitive').checked,
+      wholeWord: kind === 'term' && field<HTMLInputElement>('wholeWord').checked,
+    };
+
+    const error = validateRule(rule);
+    if (error) {
+      if (errorBox) errorBox.textContent = error;
+      return;
+    }
+    await updateRules(container, [...rules, rule], onChange);
+  });
+
+  for (const deleteBtn of container.querySelectorAll<HTMLButtonElement>('.rule-delete')) {
+    deleteBtn.addEventListener('click', () => {
+      updateRules(
+        container,
+        rules.filter((rule) => rule.id !== deleteBtn.dataset.id),
+        onChange
+      );
+    });
+  }
+}
+
+/**
+ * Save the new rule set and re-render, reporting a failed save in place
+ */
+async function updateRules(container: HTMLElement, rules: CustomRule[], onChange?: () => void): Promise<void> {
+  try {
+    await saveRules(rules);
+    renderRulesPanel(container, onChange);
+    onChange?.();
+  } catch (error) {
+    const errorBox = container.querySelector<HTMLElement>('.rule-error');
+    if (errorBox) {
+      errorBox.textContent = `Could not save rules: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+/**
+ * One-line summary of what a rule matches
+ */
+function describeRule(rule: CustomRule): string {
+  const options = [rule.caseSensitive ? 'match case' : '', rule.wholeWord ? 'whole word' : '']
+    .filter(Boolean)
+    .join(', ');
+  const value = rule.kind === 'term' ? `"${rule.value}"` : `/${rule.value}/`;
+  return options ? `${value} · ${options}` : value;
+}
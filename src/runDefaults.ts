@@ -0,0 +1,68 @@
+/**
+ * Run Defaults
+ *
+ * The options of the last run started from the task pane, saved in the
+ * document so the ribbon commands redact the same way without the pane.
+ * The scope is not kept (commands always cover the whole document), nor
+ * is the pseudonym key, which is never stored.
+ */
+
+import { DEFAULT_THRESHOLD } from './detection';
+import { DEFAULT_PSEUDONYM_OPTIONS, PseudonymMode } from './pseudonyms';
+import { RedactionOptions } from './redaction';
+import { getSetting, saveSetting } from './settings';
+import { DEFAULT_TRACKING_OPTIONS, TrackingOptions } from './tracking';
+
+export interface RunDefaults {
+  clearProperties: boolean;
+  removeHiddenText: boolean;
+  tracking: TrackingOptions;
+  pseudonymMode: PseudonymMode;
+  threshold: number;
+  entities: boolean;
+}
+
+export const DEFAULT_RUN_DEFAULTS: RunDefaults = {
+  clearProperties: false,
+  removeHiddenText: false,
+  tracking: DEFAULT_TRACKING_OPTIONS,
+  pseudonymMode: DEFAULT_PSEUDONYM_OPTIONS.mode,
+  threshold: DEFAULT_THRESHOLD,
+  entities: false,
+};
+
+// Document settings key for the run defaults
+const SETTINGS_KEY = 'redaction.runDefaults';
+
+/**
+ * Reads the saved run defaults from the document settings
+ */
+export function loadRunDefaults(): RunDefaults {
+  const saved = getSetting<Partial<RunDefaults>>(SETTINGS_KEY, {});
+  return {
+    ...DEFAULT_RUN_DEFAULTS,
+    ...saved,
+    tracking: { ...DEFAULT_TRACKING_OPTIONS, ...saved.tracking },
+  };
+}
+
+/**
+ * The run defaults a task pane run's options amount to
+ */
+export function toRunDefaults(options: RedactionOptions): RunDefaults {
+  return {
+    clearProperties: options.clearProperties,
+    removeHiddenText: options.removeHiddenText,
+    tracking: options.tracking,
+    pseudonymMode: options.pseudonyms.mode,
+    threshold: options.threshold,
+    entities: options.entities,
+  };
+}
+
+/**
+ * Saves the run defaults into the document settings
+ */
+export function saveRunDefaults(defaults: RunDefaults): Promise<void> {
+  return saveSetting(SETTINGS_KEY, defaults);
+}
@@ -0,0 +1,252 @@
+/**
+ * Sanitize Stage
+ *
+ * Runs after the redactions to find what a redacted file can still
+ * leak outside its visible text: document properties, hidden text,
+ * earlier tracked changes and comments. Properties and hidden text can
+ * optionally be cleared; tracked changes and comments are only flagged,
+ * since accepting or deleting them is the reviewer's decision.
+ */
+
+import { createAllowFilter } from './allowList';
+import { CLASSIFICATION_PROPERTY } from './banner';
+import { detect } from './detection';
+import { PROFILE_PROPERTY } from './profiles';
+import { getActiveDetectors, removeDocumentRules } from './rules';
+import { loadStories } from './stories';
+import { STAMP_PROPERTY } from './verification';
+
+export interface SanitizeOptions {
+  /** Clear built-in and custom document properties */
+  clearProperties: boolean;
+  /** Delete text formatted as hidden */
+  removeHiddenText: boolean;
+}
+
+/**
+ * A non-empty document property found during the sanitize stage
+ */
+export interface PropertyFinding {
+  name: string;
+  value: string;
+  custom: boolean;
+  cleared: boolean;
+}
+
+export interface SanitizeReport {
+  properties: PropertyFinding[];
+  hiddenTextRanges: number;
+  hiddenTextRemoved: boolean;
+  /** Tracked changes whose text holds a redacted value or sensitive data */
+  exposingTrackedChanges: number;
+  /** Comments whose text still holds a redacted value */
+  exposingComments: number;
+  warnings: string[];
+}
+
+// Built-in properties that can identify people or content, with labels
+const BUILT_IN_PROPERTIES = {
+  author: 'Author',
+  lastAuthor: 'Last modified by',
+  company: 'Company',
+  manager: 'Manager',
+  title: 'Title',
+  subject: 'Subject',
+  keywords: 'Keywords',
+  category: 'Category',
+  comments: 'Comments',
+} as const;
+
+// Word only lets add-ins write these; lastAuthor is set by Word on save
+const WRITABLE_PROPERTIES = [
+  'author',
+  'company',
+  'manager',
+  'title',
+  'subject',
+  'keywords',
+  'category',
+  'comments',
+] as const;
+
+/**
+ * Check if Word API version supports document properties (1.3+)
+ */
+function isPropertiesSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.3');
+}
+
+/**
+ * Check if Word API version supports reading tracked changes (1.6+)
+ */
+export function isTrackedChangesApiSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.6');
+}
+
+/**
+ * Check if Word supports the hidden font attribute (desktop only)
+ */
+function isHiddenTextSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApiDesktop', '1.2');
+}
+
+/**
+ * Reports, and optionally clears, built-in and custom document
+ * properties. The add-in's own properties (classification, policy and
+ * verification stamp) hold no document content and are left alone.
+ */
+async function sanitizeProperties(context: Word.RequestContext, clear: boolean): Promise<PropertyFinding[]> {
+  const properties = context.document.properties;
+  properties.load(Object.keys(BUILT_IN_PROPERTIES));
+  properties.customProperties.load('items/key,items/value');
+  await context.sync();
+
+  const findings: PropertyFinding[] = [];
+  for (const [key, name] of Object.entries(BUILT_IN_PROPERTIES)) {
+    const value = properties[key as keyof typeof BUILT_IN_PROPERTIES];
+    if (!value) continue;
+    const writable = (WRITABLE_PROPERTIES as readonly string[]).includes(key);
+    findings.push({ name, value, custom: false, cleared: clear && writable });
+  }
+  const ownProperties = [CLASSIFICATION_PROPERTY, PROFILE_PROPERTY, STAMP_PROPERTY];
+  const customProperties = properties.customProperties.items.filter(
+    (property) => !ownProperties.includes(property.key)
+  );
+  for (const property of customProperties) {
+    findings.push({ name: property.key, value: String(property.value), custom: true, cleared: clear });
+  }
+
+  if (clear) {
+    for (const key of WRITABLE_PROPERTIES) {
+      properties[key] = '';
+    }
+    customProperties.forEach((property) => property.delete());
+    await context.sync();
+  }
+  return findings;
+}
+
+/**
+ * Finds ranges formatted as hidden text in the given bodies. Paragraphs
+ * that are only partly hidden report `hidden` as null, so those are
+ * checked word by word.
+ */
+async function findHiddenText(context: Word.RequestContext, bodies: Word.Body[]): Promise<Word.Range[]> {
+  const paragraphCollections = bodies.map((body) => {
+    const paragraphs = body.paragraphs;
+    paragraphs.load('items/font/hidden');
+    return paragraphs;
+  });
+  await context.sync();
+
+  const hidden: Word.Range[] = [];
+  const mixed: Word.RangeCollection[] = [];
+  for (const paragraph of paragraphCollections.flatMap((collection) => collection.items)) {
+    if (paragraph.font.hidden === true) {
+      hidden.push(paragraph.getRange());
+    } else if (paragraph.font.hidden === null) {
+      const words = paragraph.getTextRanges([' '], false);
+      words.load('items/font/hidden');
+      mixed.push(words);
+    }
+  }
+  await context.sync();
+
+  for (const word of mixed.flatMap((words) => words.items)) {
+    if (word.font.hidden === true) hidden.push(word);
+  }
+  return hidden;
+}
+
+/**
+ * Whether a revision or comment text still exposes sensitive data: it
+ * holds one of the values just redacted, or anything the detectors find
+ * that is not allow-listed
+ */
+export function exposesSensitiveData(text: string, redactedValues: string[]): boolean {
+  return (
+    redactedValues.some((value) => text.includes(value)) ||
+    detect(text, getActiveDetectors(), 0, [], createAllowFilter()).length > 0
+  );
+}
+
+/**
+ * Runs the sanitize stage over the whole document
+ */
+export async function sanitizeDocument(
+  context: Word.RequestContext,
+  redactedValues: string[],
+  options: SanitizeOptions
+): Promise<SanitizeReport> {
+  const report: SanitizeReport = {
+    properties: [],
+    hiddenTextRanges: 0,
+    hiddenTextRemoved: false,
+    exposingTrackedChanges: 0,
+    exposingComments: 0,
+    warnings: [],
+  };
+
+  // Custom rules hold the very terms just redacted; ones an earlier
+  // version saved in the document move to this user's own storage
+  await removeDocumentRules();
+
+  if (isPropertiesSupported()) {
+    report.properties = await sanitizeProperties(context, options.clearProperties);
+  } else {
+    report.warnings.push('Document properties could not be checked in this version of Word.');
+  }
+
+  const stories = await loadStories(context);
+  const bodies = stories.flatMap((story) => (story.body ? [story.body] : []));
+
+  if (isHiddenTextSupported()) {
+    const hidden = await findHiddenText(context, bodies);
+    report.hiddenTextRanges = hidden.length;
+    if (options.removeHiddenText && hidden.length > 0) {
+      hidden.forEach((range) => range.delete());
+      await context.sync();
+      report.hiddenTextRemoved = true;
+    } else if (hidden.length > 0) {
+      report.warnings.push(
+        `${hidden.length} hidden text passage${hidden.length !== 1 ? 's were' : ' was'} left in the document.`
+      );
+    }
+  } else {
+    report.warnings.push('Hidden text could not be checked in this version of Word.');
+  }
+
+  if (isTrackedChangesApiSupported()) {
+    const trackedChanges = bodies.map((body) => {
+      const changes = body.getTrackedChanges();
+      changes.load('items/text');
+      return changes;
+    });
+    await context.sync();
+
+    report.exposingTrackedChanges = trackedChanges
+      .flatMap((changes) => changes.items)
+      .filter((change) => exposesSensitiveData(change.text, redactedValues)).length;
+    if (report.exposingTrackedChanges > 0) {
+      report.warnings.push(
+        `${report.exposingTrackedChanges} earlier tracked change${report.exposingTrackedChanges !== 1 ? 's still expose' : ' still exposes'} sensitive data. Review and accept or reject them before sharing.`
+      );
+    }
+  } else {
+    report.warnings.push('Earlier tracked changes could not be checked in this version of Word.');
+  }
+
+  const comments = stories.flatMap((story) => (story.comment ? [story.comment] : []));
+  comments.forEach((comment) => comment.load('content'));
+  await context.sync();
+  report.exposingComments = comments.filter((comment) =>
+    redactedValues.some((value) => comment.content.includes(value))
+  ).length;
+  if (report.exposingComments > 0) {
+    report.warnings.push(
+      `${report.exposingComments} comment${report.exposingComments !== 1 ? 's still contain' : ' still contains'} redacted values.`
+    );
+  }
+
+  return report;
+}
@@ -0,0 +1,145 @@
+/**
+ * Redaction Scope
+ *
+ * Limits a run to part of the document body: the current selection, one
+ * content control, or every content control with a given tag. A scope is
+ * resolved once, at scan time, into character windows over the body's
+ * paragraphs. Candidates then point at ordinary body paragraphs, so
+ * applying them later doesn't depend on the selection, which moves as
+ * soon as the reviewer jumps to a match.
+ */
+
+export type RedactionScope =
+  { kind: 'document' } | { kind: 'selection' } | { kind: 'contentControl'; id: number } | { kind: 'tag'; tag: string };
+
+/**
+ * Part of a paragraph's text that lies inside the scope
+ */
+export interface TextWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * A content control the user can pick as a scope
+ */
+export interface ContentControlInfo {
+  id: number;
+  title: string;
+  tag: string;
+}
+
+export const DOCUMENT_SCOPE: RedactionScope = { kind: 'document' };
+
+// Relations (Word.LocationRelation) meaning a paragraph and the scope
+// share no text
+const DISJOINT_RELATIONS: string[] = ['Unrelated', 'Before', 'AdjacentBefore', 'After', 'AdjacentAfter'];
+
+/**
+ * Check if Word API version supports comparing ranges (1.3+)
+ */
+export function isScopeSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.3');
+}
+
+/**
+ * Describes a scope for the result panel
+ */
+export function describeScope(scope: RedactionScope, controls: ContentControlInfo[] = []): string {
+  switch (scope.kind) {
+    case 'selection':
+      return 'Current selection';
+    case 'contentControl': {
+      const control = controls.find((candidate) => candidate.id === scope.id);
+      return `Content control "${control?.title || control?.tag || scope.id}"`;
+    }
+    case 'tag':
+      return `Content controls tagged "${scope.tag}"`;
+    default:
+      return 'Whole document';
+  }
+}
+
+/**
+ * Lists the body's content controls for the scope picker
+ */
+export async function listContentControls(): Promise<ContentControlInfo[]> {
+  return Word.run(async (context) => {
+    const controls = context.document.body.contentControls;
+    controls.load('items/id,items/title,items/tag');
+    await context.sync();
+    return controls.items.map(({ id, title, tag }) => ({ id, title: title ?? '', tag: tag ?? '' }));
+  });
+}
+
+/**
+ * The ranges making up a scope
+ */
+async function loadScopeRanges(context: Word.RequestContext, scope: RedactionScope): Promise<Word.Range[]> {
+  switch (scope.kind) {
+    case 'selection':
+      return [context.document.getSelection()];
+    case 'contentControl':
+      return [context.document.contentControls.getById(scope.id).getRange(Word.RangeLocation.content)];
+    case 'tag': {
+      const controls = context.document.contentControls.getByTag(scope.tag);
+      controls.load('items/id');
+      await context.sync();
+      return controls.items.map((control) => control.getRange(Word.RangeLocation.content));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Resolves a scope into text windows per body paragraph index. Returns
+ * null for the whole document, where nothing needs clipping.
+ */
+export async function resolveScope(
+  context: Word.RequestContext,
+  scope: RedactionScope
+): Promise<Map<number, TextWindow[]> | null> {
+  if (scope.kind === 'document') return null;
+  if (!isScopeSupported()) {
+    throw new Error('Redacting part of a document needs a newer version of Word (WordApi 1.3).');
+  }
+
+  const scopeRanges = await loadScopeRanges(context, scope);
+  const paragraphs = context.document.body.paragraphs;
+  paragraphs.load('items');
+  await context.sync();
+
+  // Find the paragraphs each scope range touches
+  const relations = scopeRanges.map((scopeRange) =>
+    paragraphs.items.map((paragraph) => paragraph.getRange(Word.RangeLocation.whole).compareLocationWith(scopeRange))
+  );
+  await context.sync();
+
+  // For each touched paragraph, clip it to the scope and measure the
+  // text before the clipped part to get its offset
+  const clips: { index: number; clipped: Word.Range; before: Word.Range }[] = [];
+  scopeRanges.forEach((scopeRange, rangeIndex) => {
+    paragraphs.items.forEach((paragraph, index) => {
+      if (DISJOINT_RELATIONS.includes(relations[rangeIndex][index].value)) return;
+
+      const content = paragraph.getRange(Word.RangeLocation.content);
+      const clipped = content.intersectWithOrNullObject(scopeRange);
+      const before = content
+        .getRange(Word.RangeLocation.start)
+        .expandToOrNullObject(clipped.getRange(Word.RangeLocation.start));
+      clipped.load('text,isNullObject');
+      before.load('text,isNullObject');
+      clips.push({ index, clipped, before });
+    });
+  });
+  await context.sync();
+
+  const windows = new Map<number, TextWindow[]>();
+  for (const { index, clipped, before } of clips) {
+    if (clipped.isNullObject) continue;
+    const start = before.isNullObject ? 0 : before.text.length;
+    windows.set(index, [...(windows.get(index) ?? []), { start, end: start + clipped.text.length }]);
+  }
+  return windows;
+}
@@ -0,0 +1,42 @@
+/**
+ * Document Settings
+ *
+ * Typed access to the add-in's settings stored in the document, so
+ * they travel with the file and apply to every reviewer who opens it.
+ */
+
+/**
+ * Reads a setting, falling back when it is missing
+ */
+export function getSetting<T>(key: string, fallback: T): T {
+  const saved = Office.context.document.settings.get(key) as T | null | undefined;
+  return saved ?? fallback;
+}
+
+/**
+ * Writes a setting and persists the settings into the document
+ */
+export function saveSetting<T>(key: string, value: T): Promise<void> {
+  Office.context.document.settings.set(key, value);
+  return persistSettings();
+}
+
+/**
+ * Removes a setting and persists the settings into the document
+ */
+export function removeSetting(key: string): Promise<void> {
+  Office.context.document.settings.remove(key);
+  return persistSettings();
+}
+
+function persistSettings(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    Office.context.document.settings.saveAsync((asyncResult) => {
+      if (asyncResult.status === Office.AsyncResultStatus.Succeeded) {
+        resolve();
+      } else {
+        reject(new Error(asyncResult.error.message));
+      }
+    });
+  });
+}
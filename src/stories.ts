@@ -0,0 +1,190 @@
+/**
+ * Document Stories
+ *
+ * Word keeps text in separate "stories": the main body, each section's
+ * headers and footers, footnotes, endnotes, comments and text boxes.
+ * This module enumerates every story the running Word version can
+ * reach, so detection isn't limited to the main body.
+ */
+
+export type StoryKind = 'body' | 'header' | 'footer' | 'footnote' | 'endnote' | 'comment' | 'textBox';
+
+// Display labels for each kind of story, used in the result summary
+export const STORY_LABELS: Record<StoryKind, string> = {
+  body: 'Body',
+  header: 'Headers',
+  footer: 'Footers',
+  footnote: 'Footnotes',
+  endnote: 'Endnotes',
+  comment: 'Comments',
+  textBox: 'Text boxes',
+};
+
+/**
+ * A story and the object holding its text. Comments have no body;
+ * their text is the comment's `content`.
+ */
+export interface Story {
+  /** Stable id for the story, e.g. "header:0:Primary" or "footnote:2" */
+  id: string;
+  kind: StoryKind;
+  body?: Word.Body;
+  comment?: Word.Comment;
+}
+
+// Every header and footer a section can have (Word.HeaderFooterType)
+const HEADER_FOOTER_TYPES = ['Primary', 'FirstPage', 'EvenPages'] as const;
+
+/**
+ * Check if Word API version supports footnotes and endnotes (1.5+)
+ */
+function isNotesSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.5');
+}
+
+/**
+ * Check if Word API version supports comments (1.4+)
+ */
+function isCommentsSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.4');
+}
+
+/**
+ * Check if Word supports shapes such as text boxes (desktop only)
+ */
+function isShapesSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApiDesktop', '1.2');
+}
+
+/**
+ * Enumerates every story in the document that the host supports
+ */
+export async function loadStories(context: Word.RequestContext): Promise<Story[]> {
+  const body = context.document.body;
+  const sections = context.document.sections;
+  sections.load('items');
+
+  const footnotes = isNotesSupported() ? body.footnotes : null;
+  const endnotes = isNotesSupported() ? body.endnotes : null;
+  const comments = isCommentsSupported() ? body.getComments() : null;
+  const shapes = isShapesSupported() ? body.shapes : null;
+  footnotes?.load('items');
+  endnotes?.load('items');
+  comments?.load('items');
+  shapes?.load('items/type');
+  await context.sync();
+
+  const stories: Story[] = [{ id: 'body', kind: 'body', body }];
+
+  sections.items.forEach((section, index) => {
+    for (const type of HEADER_FOOTER_TYPES) {
+      stories.push({ id: `header:${index}:${type}`, kind: 'header', body: section.getHeader(type) });
+      stories.push({ id: `footer:${index}:${type}`, kind: 'footer', body: section.getFooter(type) });
+    }
+  });
+
+  footnotes?.items.forEach((note, index) => {
+    stories.push({ id: `footnote:${index}`, kind: 'footnote', body: note.body });
+  });
+  endnotes?.items.forEach((note, index) => {
+    stories.push({ id: `endnote:${index}`, kind: 'endnote', body: note.body });
+  });
+  comments?.items.forEach((comment, index) => {
+    stories.push({ id: `comment:${index}`, kind: 'comment', comment });
+  });
+
+  // Only text boxes and geometric shapes have a body
+  shapes?.items.forEach((shape, index) => {
+    if (shape.type === Word.ShapeType.textBox || shape.type === Word.ShapeType.geometricShape) {
+      stories.push({ id: `shape:${index}`, kind: 'textBox', body: shape.body });
+    }
+  });
+
+  return stories;
+}
+
+/**
+ * Loads the paragraph texts of each story in a single sync. A comment
+ * counts as one paragraph holding its whole content.
+ *
+ * Sections that continue the previous section's header or footer
+ * report the same text again; those repeats are left out so a linked
+ * header isn't scanned (and counted) once per section. Word cannot tell
+ * a linked header from an unlinked one with the same text, so a run
+ * redacts the copies separately (see findHeaderFooterCopies).
+ */
+export async function loadStoryTexts(context: Word.RequestContext, stories: Story[]): Promise<Map<Story, string[]>> {
+  const texts = await loadAllStoryTexts(context, stories);
+  const seenHeadersFooters = new Set<string>();
+  for (const [story, storyTexts] of texts) {
+    const key = copyKey(story, storyTexts);
+    if (key === null) continue;
+    if (seenHeadersFooters.has(key)) texts.delete(story);
+    seenHeadersFooters.add(key);
+  }
+  return texts;
+}
+
+/**
+ * Maps the id of each header or footer that later sections repeat to
+ * those later copies, matched by kind, type and text. A copy is either
+ * linked to the first (and changes with it) or holds its own text.
+ */
+export async function findHeaderFooterCopies(
+  context: Word.RequestContext,
+  stories: Story[]
+): Promise<Map<string, Story[]>> {
+  const headersFooters = stories.filter((story) => story.kind === 'header' || story.kind === 'footer');
+  const texts = await loadAllStoryTexts(context, headersFooters);
+  const firsts = new Map<string, Story>();
+  const copies = new Map<string, Story[]>();
+  for (const [story, storyTexts] of texts) {
+    const key = copyKey(story, storyTexts);
+    if (key === null) continue;
+    const first = firsts.get(key);
+    if (first) {
+      copies.set(first.id, [...(copies.get(first.id) ?? []), story]);
+    } else {
+      firsts.set(key, story);
+    }
+  }
+  return copies;
+}
+
+/**
+ * What a header or footer must share with another to count as its
+ * copy; null for other stories and for empty ones
+ */
+function copyKey(story: Story, storyTexts: string[]): string | null {
+  if (story.kind !== 'header' && story.kind !== 'footer') return null;
+  const text = storyTexts.join('\n');
+  if (!text.trim()) return null;
+  const type = story.id.split(':')[2];
+  return `${story.kind}:${type}:${text}`;
+}
+
+/**
+ * The paragraph texts of every story, in story order
+ */
+async function loadAllStoryTexts(context: Word.RequestContext, stories: Story[]): Promise<Map<Story, string[]>> {
+  const paragraphs = new Map<Story, Word.ParagraphCollection>();
+  for (const story of stories) {
+    if (story.body) {
+      const collection = story.body.paragraphs;
+      collection.load('items/text');
+      paragraphs.set(story, collection);
+    } else {
+      story.comment?.load('content');
+    }
+  }
+  await context.sync();
+
+  const texts = new Map<Story, string[]>();
+  for (const story of stories) {
+    texts.set(
+      story,
+      story.comment ? [story.comment.content] : (paragraphs.get(story)?.items.map((paragraph) => paragraph.text) ?? [])
+    );
+  }
+  return texts;
+}
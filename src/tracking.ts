@@ -0,0 +1,111 @@
+/**
+ * Track Changes Handling
+ *
+ * Which changes of a redaction run are tracked is configurable: the
+ * redactions themselves and the confidentiality header each have their
+ * own mode, and the user's Track Changes setting is either turned on
+ * afterwards or restored to what it was.
+ */
+
+/**
+ * How the redactions are recorded:
+ * - clean:             not tracked, no strikethrough in the document
+ * - tracked:           tracked, left for the reviewer to accept
+ * - trackedThenAccept: tracked, then accepted so the original text
+ *                      doesn't linger in the revisions
+ */
+export type RedactionTrackingMode = 'clean' | 'tracked' | 'trackedThenAccept';
+
+export type HeaderTrackingMode = 'tracked' | 'clean';
+
+export interface TrackingOptions {
+  redactions: RedactionTrackingMode;
+  header: HeaderTrackingMode;
+  /** Restore the original Track Changes mode instead of turning it on */
+  restoreOriginal: boolean;
+}
+
+/**
+ * What actually happened to a group of changes
+ */
+export type TrackingOutcome = 'tracked' | 'accepted' | 'untracked';
+
+export interface TrackingReport {
+  /** Whether this version of Word supports Track Changes at all */
+  supported: boolean;
+  redactions: TrackingOutcome;
+  header: TrackingOutcome;
+  /** Track Changes mode before the run and after it, when supported */
+  originalMode?: Word.ChangeTrackingMode | string;
+  finalMode?: Word.ChangeTrackingMode | string;
+  /** Why a requested mode could not be honoured */
+  note?: string;
+}
+
+export const DEFAULT_TRACKING_OPTIONS: TrackingOptions = {
+  redactions: 'clean',
+  header: 'tracked',
+  restoreOriginal: false,
+};
+
+// Word reports revision dates to the second; allow for that when
+// picking out the revisions this run made
+const REVISION_DATE_TOLERANCE_MS = 2000;
+
+/**
+ * Check if Word API version supports Track Changes (1.5+)
+ */
+export function isTrackChangesSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.5');
+}
+
+/**
+ * Check if Word API version supports accepting tracked changes (1.6+)
+ */
+export function isAcceptChangesSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.6');
+}
+
+/**
+ * Reads the current Track Changes mode
+ */
+export async function readTrackingMode(context: Word.RequestContext): Promise<Word.ChangeTrackingMode | string> {
+  context.document.load('changeTrackingMode');
+  await context.sync();
+  return context.document.changeTrackingMode;
+}
+
+/**
+ * Turns Track Changes on (track all) or off
+ */
+export async function setTracking(context: Word.RequestContext, tracked: boolean): Promise<void> {
+  context.document.changeTrackingMode = tracked ? Word.ChangeTrackingMode.trackAll : Word.ChangeTrackingMode.off;
+  await context.sync();
+}
+
+/**
+ * Accepts the tracked changes this run made in the given bodies: those
+ * dated from the start of the run whose text is a redacted value or an
+ * inserted marker. Earlier revisions are left alone.
+ */
+export async function acceptRunChanges(
+  context: Word.RequestContext,
+  bodies: Word.Body[],
+  since: Date,
+  texts: Set<string>
+): Promise<number> {
+  const collections = bodies.map((body) => {
+    const changes = body.getTrackedChanges();
+    changes.load('items/date,items/text');
+    return changes;
+  });
+  await context.sync();
+
+  const threshold = since.getTime() - REVISION_DATE_TOLERANCE_MS;
+  const ours = collections
+    .flatMap((changes) => changes.items)
+    .filter((change) => new Date(change.date).getTime() >= threshold && texts.has(change.text));
+  ours.forEach((change) => change.accept());
+  await context.sync();
+  return ours.length;
+}
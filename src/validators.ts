@@ -0,0 +1,265 @@
+/**
+ * Validators
+ *
+ * Checksum and structure checks used by the detectors to reject
+ * pattern matches that cannot be real identifiers.
+ */
+
+/**
+ * Validates if a potential SSN is actually an SSN
+ * SSNs have specific rules:
+ * - Area number (first 3 digits) cannot be 000, 666, or 900-999
+ * - Group number (middle 2 digits) cannot be 00
+ * - Serial number (last 4 digits) cannot be 0000
+ */
+export function isValidSSN(ssn: string): boolean {
+  const digits = ssn.replace(/\D/g, '');
+  if (digits.length !== 9) return false;
+
+  const area = parseInt(digits.substring(0, 3), 10);
+  const group = parseInt(digits.substring(3, 5), 10);
+  const serial = parseInt(digits.substring(5, 9), 10);
+
+  // Invalid area numbers
+  if (area === 0 || area === 666 || area >= 900) return false;
+  // Invalid group number
+  if (group === 0) return false;
+  // Invalid serial number
+  if (serial === 0) return false;
+
+  return true;
+}
+
+/**
+ * Checks a 10-digit (or 1 + 10-digit) number against the North American
+ * Numbering Plan
+ * - Area code and exchange both start with 2-9
+ * - Neither is an N11 service code (411, 911, ...)
+ * - The area code's middle digit is not 9 (reserved for expansion)
+ */
+export function isValidNANP(phone: string): boolean {
+  let digits = phone.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) digits = digits.substring(1);
+  if (digits.length !== 10) return false;
+
+  const area = digits.substring(0, 3);
+  const exchange = digits.substring(3, 6);
+  const isServiceCode = (code: string) => code.substring(1) === '11';
+
+  if (!/^[2-9]/.test(area) || isServiceCode(area) || area[1] === '9') return false;
+  if (!/^[2-9]/.test(exchange) || isServiceCode(exchange)) return false;
+  return true;
+}
+
+/**
+ * Luhn checksum: every second digit from the right is doubled
+ * (subtracting 9 when it exceeds 9) and the sum must end in 0
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Validates a payment card number with the Luhn checksum
+ * Card numbers are 13-19 digits
+ */
+export function isValidCardNumber(card: string): boolean {
+  const digits = card.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  return passesLuhn(digits);
+}
+
+/**
+ * Validates an IBAN with the ISO 13616 mod-97 check
+ * The first four characters are moved to the end, letters become
+ * numbers (A=10 ... Z=35) and the result modulo 97 must equal 1
+ */
+export function isValidIBAN(iban: string): boolean {
+  const compact = iban.replace(/\s/g, '').toUpperCase();
+  if (compact.length < 15 || compact.length > 34) return false;
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(compact)) return false;
+
+  const rearranged = compact.substring(4) + compact.substring(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = parseInt(char, 36).toString();
+    for (const digit of value) {
+      remainder = (remainder * 10 + parseInt(digit, 10)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * Validates an IPv6 address in full or "::"-compressed form
+ * - At most one "::" and at most 8 groups of 1-4 hex digits
+ * - Exactly 8 groups when nothing is compressed
+ */
+export function isValidIPv6(address: string): boolean {
+  const halves = address.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.flatMap((half) => (half === '' ? [] : half.split(':')));
+  if (!groups.every((group) => /^[0-9a-fA-F]{1,4}$/.test(group))) return false;
+
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Validates that a date of birth is a real calendar date in the past
+ * Formats covered:
+ * - 01/31/1990, 1-31-1990, 01.31.90 (month first)
+ * - 1990-01-31 (ISO)
+ * - January 31, 1990 / Jan 31 1990
+ * - 31 January 1990
+ */
+export function isValidDateOfBirth(date: string): boolean {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = date.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const numeric = date.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  const named = date.match(/^([A-Za-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/);
+  const namedDayFirst = date.match(/^(\d{1,2})\s+([A-Za-z]+)\.?,?\s+(\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [iso[1], iso[2], iso[3]].map(Number);
+  } else if (numeric) {
+    [month, day, year] = [numeric[1], numeric[2], numeric[3]].map(Number);
+    if (numeric[3].length === 2) year += 1900;
+  } else if (named) {
+    month = MONTHS.indexOf(named[1].substring(0, 3).toLowerCase()) + 1;
+    [day, year] = [named[2], named[3]].map(Number);
+  } else if (namedDayFirst) {
+    month = MONTHS.indexOf(namedDayFirst[2].substring(0, 3).toLowerCase()) + 1;
+    [day, year] = [namedDayFirst[1], namedDayFirst[3]].map(Number);
+  } else {
+    return false;
+  }
+
+  const parsed = new Date(year, month - 1, day);
+  return (
+    month >= 1 &&
+    parsed.getFullYear() === year &&
+    parsed.getMonth() === month - 1 &&
+    parsed.getDate() === day &&
+    year >= 1900 &&
+    parsed.getTime() < Date.now()
+  );
+}
+
+/**
+ * Validates a UK National Insurance number
+ * - Two prefix letters, six digits and a suffix letter A-D
+ * - D, F, I, Q, U and V never appear in the prefix, nor O second
+ * - BG, GB, KN, NK, NT, TN and ZZ are not allocated
+ */
+export function isValidNINO(nino: string): boolean {
+  const compact = nino.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(compact)) return false;
+  return !['BG', 'GB', 'KN', 'NK', 'NT', 'TN', 'ZZ'].includes(compact.substring(0, 2));
+}
+
+/**
+ * Validates a Canadian Social Insurance Number
+ * SINs are 9 digits passing the Luhn checksum; none start with 0, and
+ * those starting with 8 are business numbers
+ */
+export function isValidSIN(sin: string): boolean {
+  const digits = sin.replace(/\D/g, '');
+  if (digits.length !== 9 || digits[0] === '0' || digits[0] === '8') return false;
+  return passesLuhn(digits);
+}
+
+/**
+ * Validates an Israeli identity number (Teudat Zehut)
+ * Shorter numbers are padded to 9 digits with leading zeros; digits
+ * are weighted 1, 2, 1, 2, ... from the left, which for 9 digits is
+ * the Luhn checksum
+ */
+export function isValidTeudatZehut(id: string): boolean {
+  const digits = id.replace(/\D/g, '');
+  if (digits.length < 5 || digits.length > 9 || /^0+$/.test(digits)) return false;
+  return passesLuhn(digits.padStart(9, '0'));
+}
+
+// Verhoeff multiplication (dihedral group D5) and permutation tables
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 8, 7, 6, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Validates an Indian Aadhaar number
+ * Aadhaar numbers are 12 digits, never starting with 0 or 1, whose last
+ * digit is a Verhoeff check digit
+ */
+export function isValidAadhaar(aadhaar: string): boolean {
+  const digits = aadhaar.replace(/\D/g, '');
+  if (!/^[2-9]\d{11}$/.test(digits)) return false;
+
+  let check = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = parseInt(digits[digits.length - 1 - i], 10);
+    check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[i % 8][digit]];
+  }
+  return check === 0;
+}
+
+// Control letters of Spanish DNI and NIE numbers, indexed by the number mod 23
+const SPANISH_ID_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+/**
+ * Validates a Spanish DNI (12345678Z) or NIE (X1234567L)
+ * The control letter is the number modulo 23 looked up in a fixed
+ * alphabet; an NIE's leading X, Y or Z counts as 0, 1 or 2
+ */
+export function isValidSpanishId(id: string): boolean {
+  const compact = id.replace(/[-\s]/g, '').toUpperCase();
+  const match = /^([XYZ]\d{7}|\d{8})([A-Z])$/.exec(compact);
+  if (!match) return false;
+
+  const number = parseInt(
+    match[1].replace(/^[XYZ]/, (letter) => String('XYZ'.indexOf(letter))),
+    10
+  );
+  return SPANISH_ID_LETTERS[number % 23] === match[2];
+}
+
+/**
+ * Document numbers (passports, licenses) always contain at least one
+ * digit, which keeps ordinary words after "passport" from matching
+ */
+export function hasDigit(value: string): boolean {
+  return /\d/.test(value);
+}
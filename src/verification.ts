@@ -0,0 +1,287 @@
+/**
+ * Verification Scan
+ *
+ * Read-only check, before a document is shared, that a redaction left
+ * nothing behind. Every story is scanned again, and the result is a
+ * checklist: no residual matches, no fragments of values redacted in
+ * this session, a classification banner in place, Track Changes on, and
+ * no pending revision still holding sensitive text. A passing result can
+ * be stamped into a custom document property with a hash of the text,
+ * so a later reader can tell whether the document changed since.
+ */
+
+import { findBanners } from './banner';
+import { describeError } from './errors';
+import { MASK_CHAR } from './markers';
+import { RunControl } from './progress';
+import { getSessionRedactions, RedactionCandidate, scanStories, ScanOptions, SessionRedaction } from './redaction';
+import { exposesSensitiveData, isTrackedChangesApiSupported } from './sanitize';
+import { DOCUMENT_SCOPE } from './scope';
+import { loadStories, loadStoryTexts, Story } from './stories';
+import { isTrackChangesSupported, readTrackingMode } from './tracking';
+
+export type CheckStatus = 'pass' | 'fail' | 'skipped';
+
+export type CheckId = 'residual' | 'fragments' | 'banner' | 'tracking' | 'revisions';
+
+export interface VerificationCheck {
+  id: CheckId;
+  label: string;
+  status: CheckStatus;
+  details: string;
+}
+
+/**
+ * What a saved stamp records
+ */
+export interface VerificationStamp {
+  verifiedAt: string;
+  /** Policy profile in use when the document was verified, if any */
+  profile?: string;
+  /** SHA-256 of the document's text, in hex */
+  hash: string;
+}
+
+export interface VerificationResult {
+  success: boolean;
+  /** Every check passed or was skipped */
+  passed: boolean;
+  checks: VerificationCheck[];
+  /** Matches the residual check found, for locating them */
+  residual: RedactionCandidate[];
+  /** SHA-256 of the document's text, in hex */
+  hash?: string;
+  /** Stamp saved by an earlier verification */
+  stamp?: VerificationStamp;
+  /** Whether the text is unchanged since that stamp */
+  stampCurrent?: boolean;
+  error?: string;
+}
+
+// Custom document property holding the verification stamp
+export const STAMP_PROPERTY = 'Redaction Verification';
+
+// Shortest run of letters or digits checked as a fragment of a value
+const MIN_FRAGMENT_LENGTH = 4;
+
+// Detectors whose values are checked whole only: the pieces of a date
+// (a year, a month name) are too common to count as leaks
+const WHOLE_VALUE_DETECTORS = ['dateOfBirth'];
+
+/**
+ * Check if Word API version supports custom document properties (1.3+)
+ */
+function isCustomPropertiesSupported(): boolean {
+  return Office.context.requirements.isSetSupported('WordApi', '1.3');
+}
+
+/**
+ * The parts of a redacted value that should not appear on their own:
+ * the whole value, its digits without separators, and each run of
+ * letters or digits long enough to identify it. Emails contribute the
+ * parts of their local name only, since domains are shared.
+ */
+function valueFragments(redaction: SessionRedaction): string[] {
+  const { detector, value } = redaction;
+  const fragments = new Set([value]);
+  if (WHOLE_VALUE_DETECTORS.includes(detector)) return [...fragments];
+
+  const digits = value.replace(/\D/g, '');
+  if (digits.length >= MIN_FRAGMENT_LENGTH && digits !== value) fragments.add(digits);
+
+  const at = value.lastIndexOf('@');
+  const identifying = at > 0 ? value.substring(0, at) : value;
+  for (const run of identifying.match(/[A-Za-z]+|\d+/g) ?? []) {
+    if (run.length >= MIN_FRAGMENT_LENGTH) fragments.add(run);
+  }
+  return [...fragments];
+}
+
+/**
+ * Fragments found in the text. Occurrences inside a marker (the visible
+ * end of a partial mask such as ███-██-6789) are by design and skipped.
+ */
+function findFragments(text: string, fragments: string[]): string[] {
+  return fragments.filter((fragment) => {
+    const escaped = fragment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])`, 'gi');
+    for (const match of text.matchAll(pattern)) {
+      const start = text.lastIndexOf(' ', match.index) + 1;
+      const end = text.indexOf(' ', match.index + fragment.length);
+      const word = text.substring(start, end === -1 ? text.length : end);
+      if (!word.includes(MASK_CHAR)) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * SHA-256 of a text, in hex
+ */
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Reads the stamp saved by an earlier verification
+ */
+async function readStamp(context: Word.RequestContext): Promise<VerificationStamp | undefined> {
+  if (!isCustomPropertiesSupported()) return undefined;
+  const property = context.document.properties.customProperties.getItemOrNullObject(STAMP_PROPERTY);
+  property.load('value');
+  await context.sync();
+  if (property.isNullObject) return undefined;
+  try {
+    return JSON.parse(String(property.value)) as VerificationStamp;
+  } catch {
+    return undefined;
+  }
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count !== 1 ? nouns : noun}`;
+}
+
+/**
+ * Hash of the text of every story, as the stamp records it
+ */
+async function hashDocument(context: Word.RequestContext): Promise<{ text: string; hash: string; stories: Story[] }> {
+  const storyTexts = await loadStoryTexts(context, await loadStories(context));
+  const text = [...storyTexts.values()].flat().join('\n');
+  return { text, hash: await sha256(text), stories: [...storyTexts.keys()] };
+}
+
+/**
+ * Scans the whole document and returns the checklist. Nothing in the
+ * document is changed.
+ */
+export async function verifyDocument(
+  options: Omit<ScanOptions, 'scope'>,
+  control: RunControl = {}
+): Promise<VerificationResult> {
+  const result: VerificationResult = { success: false, passed: false, checks: [], residual: [] };
+
+  try {
+    await Word.run(async (context) => {
+      result.residual = (await scanStories(context, { ...options, scope: DOCUMENT_SCOPE }, control)).candidates;
+      result.checks.push({
+        id: 'residual',
+        label: 'No sensitive data left',
+        status: result.residual.length === 0 ? 'pass' : 'fail',
+        details:
+          result.residual.length === 0
+            ? 'The detectors found nothing in any story.'
+            : `${plural(result.residual.length, 'match', 'matches')} still in the document.`,
+      });
+
+      control.onProgress?.({ stage: 'finishing', done: 0, total: 1 });
+      const { text, hash, stories } = await hashDocument(context);
+      result.hash = hash;
+
+      const redactions = getSessionRedactions();
+      const fragments = [...new Set(redactions.flatMap(valueFragments))];
+      const leftover = findFragments(text, fragments);
+      result.checks.push({
+        id: 'fragments',
+        label: 'No fragments of redacted values',
+        status: redactions.length === 0 ? 'skipped' : leftover.length === 0 ? 'pass' : 'fail',
+        details:
+          redactions.length === 0
+            ? 'Nothing was redacted in this session, so there are no values to look for.'
+            : leftover.length === 0
+              ? `None of the ${plural(redactions.length, 'value')} redacted in this session appear, in whole or in part.`
+              : `${plural(leftover.length, 'piece')} of redacted values still appear.`,
+      });
+
+      const banners = await findBanners(context);
+      result.checks.push({
+        id: 'banner',
+        label: 'Classification banner present',
+        status: banners.length > 0 ? 'pass' : 'fail',
+        details:
+          banners.length > 0 ? `"${banners.join('", "')}"` : 'No header or footer carries the classification banner.',
+      });
+
+      if (isTrackChangesSupported()) {
+        const mode = await readTrackingMode(context);
+        const on = mode !== Word.ChangeTrackingMode.off;
+        result.checks.push({
+          id: 'tracking',
+          label: 'Track Changes on',
+          status: on ? 'pass' : 'fail',
+          details: on ? 'Later edits will be recorded.' : 'Edits made from now on will not be recorded.',
+        });
+      } else {
+        result.checks.push({
+          id: 'tracking',
+          label: 'Track Changes on',
+          status: 'skipped',
+          details: 'Track Changes needs a newer version of Word (WordApi 1.5).',
+        });
+      }
+
+      if (isTrackedChangesApiSupported()) {
+        const bodies = stories.flatMap((story) => (story.body ? [story.body] : []));
+        const collections = bodies.map((body) => {
+          const changes = body.getTrackedChanges();
+          changes.load('items/text');
+          return changes;
+        });
+        await context.sync();
+        const values = redactions.map((redaction) => redaction.value);
+        const exposing = collections
+          .flatMap((changes) => changes.items)
+          .filter((change) => exposesSensitiveData(change.text, values)).length;
+        result.checks.push({
+          id: 'revisions',
+          label: 'No revisions hold sensitive text',
+          status: exposing === 0 ? 'pass' : 'fail',
+          details:
+            exposing === 0
+              ? 'No pending tracked change contains sensitive data.'
+              : `${plural(exposing, 'pending tracked change')} still contain sensitive data. Accept or reject them before sharing.`,
+        });
+      } else {
+        result.checks.push({
+          id: 'revisions',
+          label: 'No revisions hold sensitive text',
+          status: 'skipped',
+          details: 'Tracked changes can only be read in a newer version of Word (WordApi 1.6).',
+        });
+      }
+
+      result.stamp = await readStamp(context);
+      if (result.stamp) result.stampCurrent = result.stamp.hash === result.hash;
+
+      result.passed = result.checks.every((check) => check.status !== 'fail');
+      result.success = true;
+    });
+  } catch (error) {
+    result.error = describeError(error);
+    result.success = false;
+  }
+
+  return result;
+}
+
+/**
+ * Saves a verification stamp for the text that was verified. Refuses
+ * when the text has changed since, as the stamp would vouch for text
+ * that was never checked.
+ */
+export async function saveStamp(verifiedHash: string, profile?: string): Promise<VerificationStamp> {
+  if (!isCustomPropertiesSupported()) {
+    throw new Error('Saving a stamp needs a newer version of Word (WordApi 1.3).');
+  }
+  return Word.run(async (context) => {
+    const { hash } = await hashDocument(context);
+    if (hash !== verifiedHash) {
+      throw new Error('The document changed after it was verified. Verify it again before stamping.');
+    }
+    const stamp: VerificationStamp = { verifiedAt: new Date().toISOString(), profile, hash };
+    context.document.properties.customProperties.add(STAMP_PROPERTY, JSON.stringify(stamp));
+    await context.sync();
+    return stamp;
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * Verification Panel
+ *
+ * Shows the verification checklist in the status area and offers to
+ * stamp a document that passed.
+ */
+
+import { escapeHtml } from './html';
+import { loadActiveProfile } from './profiles';
+import { RedactionCandidate } from './redaction';
+import { CheckStatus, saveStamp, VerificationResult, VerificationStamp } from './verification';
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pass: 'Passed',
+  fail: 'Failed',
+  skipped: 'Not checked',
+};
+
+/**
+ * Render the checklist into the container. `onReview` opens the review
+ * list for the residual matches.
+ */
+export function renderVerification(
+  container: HTMLElement,
+  result: VerificationResult,
+  onReview: (candidates: RedactionCandidate[]) => void
+): void {
+  container.innerHTML = `
+    <div class="status-message ${result.passed ? 'success' : 'error'}">
+      <div class="status-content">
+        <div class="status-title">${result.passed ? 'Verification Passed' : 'Verification Failed'}</div>
+        <div class="status-details">
+          ${result.passed ? 'The document is ready to share.' : 'Fix the failed checks before sharing the document.'}
+        </div>
+        ${result.stamp ? `<div class="status-details">${describeStamp(result.stamp, result.stampCurrent)}</div>` : ''}
+      </div>
+    </div>
+    <ul class="checklist status-followup">
+      ${result.checks
+        .map(
+          (check) => `
+        <li class="check-item ${check.status}">
+          <span class="check-status">${STATUS_LABELS[check.status]}</span>
+          <div class="check-content">
+            <div class="check-label">${escapeHtml(check.label)}</div>
+            <div class="check-details">${escapeHtml(check.details)}</div>
+          </div>
+        </li>
+      `
+        )
+        .join('')}
+    </ul>
+    ${
+      result.residual.length > 0 || result.passed
+        ? `
+      <div class="review-actions">
+        ${result.residual.length > 0 ? '<button type="button" class="apply-btn" data-action="review">Review remaining matches</button>' : ''}
+        ${result.passed ? '<button type="button" class="secondary-btn" data-action="stamp">Save verification stamp</button>' : ''}
+      </div>
+    `
+        : ''
+    }
+    <div class="rule-error" role="alert"></div>
+  `;
+
+  container.querySelector('[data-action="review"]')?.addEventListener('click', () => onReview(result.residual));
+
+  const stampBtn = container.querySelector<HTMLButtonElement>('[data-action="stamp"]');
+  stampBtn?.addEventListener('click', async () => {
+    const errorBox = container.querySelector<HTMLElement>('.rule-error');
+    stampBtn.disabled = true;
+    try {
+      if (!result.hash) throw new Error('The document text could not be read.');
+      const stamp = await saveStamp(result.hash, loadActiveProfile()?.name);
+      stampBtn.textContent = 'Stamp saved';
+      if (errorBox) errorBox.textContent = '';
+      const details = container.querySelector('.status-message .status-content');
+      details?.insertAdjacentHTML('beforeend', `<div class="status-details">${describeStamp(stamp, true)}</div>`);
+    } catch (error) {
+      stampBtn.disabled = false;
+      if (errorBox) {
+        errorBox.textContent = `Could not save the stamp: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  });
+}
+
+/**
+ * When a stamp was saved, and whether the text has changed since
+ */
+function describeStamp(stamp: VerificationStamp, current: boolean | undefined): string {
+  const when = new Date(stamp.verifiedAt).toLocaleString();
+  const profile = stamp.profile ? ` under the ${escapeHtml(stamp.profile)} profile` : '';
+  return current
+    ? `Stamped ${escapeHtml(when)}${profile}; the text is unchanged since.`
+    : `Stamped ${escapeHtml(when)}${profile}, but the text has changed since.`;
+}
@@ -1,2 +1 @@
 /// <reference types="vite/client" />
-
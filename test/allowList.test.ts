@@ -0,0 +1,98 @@
+/**
+ * Allow-list tests: what each kind of entry lets through, entries that
+ * are refused, and fake pseudonyms being ignored
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AllowEntry, AllowKind, createAllowFilter, loadAllowList, validateAllowEntry } from '../src/allowList';
+import { Match } from '../src/detection';
+import { stubDocumentSettings, stubLocalStorage } from './hostStubs';
+
+function entry(kind: AllowKind, value: string): AllowEntry {
+  return { id: `allow-${kind}`, kind, value };
+}
+
+function match(text: string): Match {
+  return { detector: 'email', text, offset: 0, confidence: 0.9 };
+}
+
+/**
+ * Which of the texts a list with the one entry allows
+ */
+function allowed(allow: AllowEntry, texts: string[]): string[] {
+  const filter = createAllowFilter({ user: [allow], document: [] }, []);
+  return texts.filter((text) => filter.allows(match(text)));
+}
+
+describe('createAllowFilter', () => {
+  it('allows an exact value, ignoring case and surrounding spaces', () => {
+    assert.deepEqual(allowed(entry('value', ' 078-05-1120 '), ['078-05-1120', '078-05-11200']), ['078-05-1120']);
+    assert.deepEqual(allowed(entry('value', 'Jane Roe'), ['jane roe', 'Jane Roe Jr']), ['jane roe']);
+  });
+
+  it('allows a domain and its subdomains in email and web addresses', () => {
+    assert.deepEqual(
+      allowed(entry('domain', '@OurCompany.com'), [
+        'jane@ourcompany.com',
+        'jane@mail.ourcompany.com',
+        'https://www.ourcompany.com/about',
+        'www.ourcompany.com',
+        'jane@notourcompany.com',
+        'ourcompany.com.evil.net',
+      ]),
+      ['jane@ourcompany.com', 'jane@mail.ourcompany.com', 'https://www.ourcompany.com/about', 'www.ourcompany.com']
+    );
+  });
+
+  it('allows values a regular expression matches in full', () => {
+    assert.deepEqual(allowed(entry('regex', '555-01\\d\\d'), ['555-0123', 'x555-0123', '555-01234']), ['555-0123']);
+  });
+
+  it('combines the user and document lists and skips invalid entries', () => {
+    const filter = createAllowFilter(
+      { user: [entry('value', 'a@b.com'), entry('regex', '(')], document: [entry('domain', 'example.org')] },
+      []
+    );
+    assert.equal(filter.allows(match('a@b.com')), true);
+    assert.equal(filter.allows(match('jo@example.org')), true);
+    assert.equal(filter.allows(match('(')), false);
+  });
+
+  it('ignores fake values written as pseudonyms', () => {
+    const filter = createAllowFilter({ user: [], document: [] }, ['person1@example.com']);
+    assert.equal(filter.ignores?.(match('person1@example.com')), true);
+    assert.equal(filter.ignores?.(match('person2@example.com')), false);
+    assert.equal(filter.allows(match('person1@example.com')), false);
+  });
+});
+
+describe('validateAllowEntry', () => {
+  it('accepts well-formed entries', () => {
+    assert.equal(validateAllowEntry(entry('value', 'Jane Roe')), null);
+    assert.equal(validateAllowEntry(entry('domain', '@ourcompany.com')), null);
+    assert.equal(validateAllowEntry(entry('regex', '555-01\\d\\d')), null);
+  });
+
+  it('refuses empty values, bad domains and bad expressions', () => {
+    assert.equal(validateAllowEntry(entry('value', ' ')), 'Enter a value to allow.');
+    assert.equal(validateAllowEntry(entry('regex', '')), 'Enter a regular expression.');
+    assert.equal(validateAllowEntry(entry('domain', 'localhost')), 'Enter a domain such as ourcompany.com.');
+    assert.match(validateAllowEntry(entry('regex', '[')) ?? '', /^Invalid regular expression/);
+    assert.equal(validateAllowEntry(entry('regex', 'a*')), 'The expression must not match empty text.');
+  });
+});
+
+describe('loadAllowList', () => {
+  it("reads the user's list from local storage and the document's from its settings", () => {
+    stubLocalStorage({ 'redaction.allowList': JSON.stringify([entry('value', 'user')]) });
+    stubDocumentSettings({ 'redaction.allowList': [entry('value', 'document')] });
+    assert.deepEqual(loadAllowList(), { user: [entry('value', 'user')], document: [entry('value', 'document')] });
+  });
+
+  it('reads unreadable or missing lists as empty', () => {
+    stubLocalStorage({ 'redaction.allowList': 'not json' });
+    stubDocumentSettings({ 'redaction.allowList': 'not a list' });
+    assert.deepEqual(loadAllowList(), { user: [], document: [] });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Detection engine tests: positive and negative fixtures for detect(),
+ * context scoring, overlap collapsing and the allow filter
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { collapseOverlaps, detect, DEFAULT_THRESHOLD, Match } from '../src/detection';
+import { DETECTORS } from '../src/detectors';
+import { isInRegions } from '../src/locales';
+
+// The detectors that run by default: United States, no policy profile
+const US_DETECTORS = DETECTORS.filter((detector) => !detector.optional && isInRegions(detector, ['us']));
+
+/**
+ * What the default detectors find in the text, as "detector:text"
+ */
+function found(text: string, threshold = DEFAULT_THRESHOLD): string[] {
+  return detect(text, US_DETECTORS, threshold).map((match) => `${match.detector}:${match.text}`);
+}
+
+/**
+ * Runs each fixture as its own test: the text and what must be found
+ */
+function fixtures(cases: [text: string, expected: string[]][]): void {
+  for (const [text, expected] of cases) {
+    it(JSON.stringify(text), () => assert.deepEqual(found(text), expected));
+  }
+}
+
+describe('phone numbers', () => {
+  fixtures([
+    ['Call (555) 234-5678 today', ['phone:(555) 234-5678']],
+    ['tel: 212-555-1234', ['phone:212-555-1234']],
+    ['Reach me at 212.555.1234', ['phone:212.555.1234']],
+    ['Dial +1 212 555 1234', ['phone:+1 212 555 1234']],
+    ['Mobile 2125551234', ['phone:2125551234']],
+  ]);
+
+  describe('negatives', () => {
+    fixtures([
+      ['Invoice # 212-555-1234', []],
+      ['Invoice #: 212-555-1234', []],
+      ['Order No.: 212-555-1234', []],
+      ['Order no. 212-555-1234', []],
+      ['Account number: 212-555-1234', []],
+      ['Version 212-555', []],
+    ]);
+  });
+
+  it('lowers confidence for numbers outside the NANP rules', () => {
+    const [valid] = detect('Phone 212-555-1234', US_DETECTORS);
+    const [invalid] = detect('Phone 123-456-7890', US_DETECTORS);
+    assert.ok(invalid.confidence < valid.confidence);
+  });
+
+  it('raises confidence after a phone keyword', () => {
+    const [plain] = detect('Number 212-555-1234', US_DETECTORS);
+    const [boosted] = detect('Tel 212-555-1234', US_DETECTORS);
+    assert.ok(boosted.confidence > plain.confidence);
+  });
+});
+
+describe('social security numbers', () => {
+  fixtures([
+    ['SSN 123-45-6789', ['ssn:123-45-6789']],
+    ['SSN: 123456789', ['ssn:123456789']],
+    ['Her number is 123 45 6789', ['ssn:123 45 6789']],
+  ]);
+
+  describe('invalid area, group and serial numbers', () => {
+    for (const ssn of ['666-12-3456', '900-12-3456', '999-12-3456', '000-12-3456', '123-00-6789', '123-45-0000']) {
+      it(ssn, () => {
+        assert.ok(!found(`Ref ${ssn}`).some((match) => match.startsWith('ssn:')));
+      });
+    }
+  });
+
+  describe('negatives', () => {
+    fixtures([
+      ['ZIP 12345-6789', []],
+      ['Invoice # 123-45-6789', []],
+    ]);
+  });
+
+  describe('masked', () => {
+    fixtures([
+      ['SSN XXX-XX-1234', ['ssnMasked:XXX-XX-1234']],
+      ['SSN xxx-xx-1234', ['ssnMasked:xxx-xx-1234']],
+      ['SSN ***-**-5678', ['ssnMasked:***-**-5678']],
+      ['on file as ****1234', ['ssnMasked:****1234']],
+      ['on file as *xx-xx-1234', ['ssnMasked:*xx-xx-1234']],
+    ]);
+  });
+
+  describe('partial', () => {
+    fixtures([
+      ['the last four digits of her SSN are 4321', ['ssnPartial:4321']],
+      ['SSN ending in 9012', ['ssnPartial:9012']],
+    ]);
+  });
+});
+
+describe('other detectors', () => {
+  fixtures([
+    ['mail john.doe@example.com', ['email:john.doe@example.com']],
+    ['Card 4111 1111 1111 1111', ['creditCard:4111 1111 1111 1111']],
+    ['IBAN GB82 WEST 1234 5698 7654 32', ['iban:GB82 WEST 1234 5698 7654 32']],
+    ['IP 192.168.1.20', ['ipv4:192.168.1.20']],
+    ['DOB: 01/31/1990', ['dateOfBirth:01/31/1990']],
+  ]);
+
+  describe('negatives', () => {
+    fixtures([
+      ['Card 4111 1111 1111 1112', []],
+      ['IBAN GB82 WEST 1234 5698 7654 33', []],
+      ['IP 999.1.1.1', []],
+      ['DOB: 02/30/1990', []],
+      ['Nothing sensitive here.', []],
+    ]);
+  });
+});
+
+describe('detect', () => {
+  it('reports offsets into the scanned text, in order', () => {
+    const text = 'a@b.com and SSN 123-45-6789';
+    const matches = detect(text, US_DETECTORS);
+    assert.deepEqual(
+      matches.map((match) => match.offset),
+      [0, 16]
+    );
+    for (const match of matches) {
+      assert.equal(text.substring(match.offset, match.offset + match.text.length), match.text);
+    }
+  });
+
+  it('drops matches below the threshold', () => {
+    assert.deepEqual(found('Mobile 2125551234', 0.95), []);
+  });
+
+  it('merges matches made elsewhere, such as by the entity model', () => {
+    const entity: Match = { detector: 'person', text: 'Jane Roe', offset: 0, confidence: 0.9 };
+    assert.deepEqual(
+      detect('Jane Roe, tel 212-555-1234', US_DETECTORS, 0.5, [entity]).map((match) => match.detector),
+      ['person', 'phone']
+    );
+  });
+
+  it('sets allow-listed matches aside, with what lies inside them', () => {
+    const allow = { allows: (match: Match) => match.text === '123-45-6789', skipped: [] as Match[] };
+    assert.deepEqual(
+      detect('SSN 123-45-6789 or 234-56-7890', US_DETECTORS, 0.5, [], allow).map((match) => match.text),
+      ['234-56-7890']
+    );
+    assert.deepEqual(
+      allow.skipped.map((match) => match.text),
+      ['123-45-6789']
+    );
+  });
+
+  it('drops ignored matches, such as fake pseudonyms, without counting them', () => {
+    const allow = {
+      allows: () => false,
+      ignores: (match: Match) => match.text === 'person1@example.com',
+      skipped: [] as Match[],
+    };
+    assert.deepEqual(
+      detect('person1@example.com or a@b.com', US_DETECTORS, 0.5, [], allow).map((match) => match.text),
+      ['a@b.com']
+    );
+    assert.deepEqual(allow.skipped, []);
+  });
+});
+
+describe('collapseOverlaps', () => {
+  const detectors = US_DETECTORS;
+  const match = (detector: string, text: string, offset: number, confidence: number): Match => ({
+    detector,
+    text,
+    offset,
+    confidence,
+  });
+
+  it('keeps separate matches apart', () => {
+    const matches = [match('email', 'a@b.com', 0, 0.95), match('ssn', '123-45-6789', 12, 0.9)];
+    assert.deepEqual(collapseOverlaps(matches, detectors), matches);
+  });
+
+  it('merges overlapping matches into one spanning both', () => {
+    const [merged, ...rest] = collapseOverlaps(
+      [match('phone', '212-555-1234', 5, 0.8), match('ssn', '555-1234 99', 9, 0.6)],
+      detectors
+    );
+    assert.equal(rest.length, 0);
+    assert.deepEqual(merged, match('phone', '212-555-1234 99', 5, 0.8));
+  });
+
+  it('names the merged match after the most confident detector', () => {
+    const [merged] = collapseOverlaps(
+      [match('phone', '123456789', 0, 0.6), match('ssn', '123456789', 0, 0.75)],
+      detectors
+    );
+    assert.equal(merged.detector, 'ssn');
+  });
+
+  it('breaks ties by detector order', () => {
+    const [merged] = collapseOverlaps(
+      [match('ssn', '123456789', 0, 0.6), match('email', '123456789', 0, 0.6)],
+      detectors
+    );
+    assert.equal(merged.detector, 'email');
+  });
+
+  it('sorts by offset', () => {
+    const collapsed = collapseOverlaps(
+      [match('ssn', '123-45-6789', 20, 0.9), match('email', 'a@b.com', 0, 0.95)],
+      detectors
+    );
+    assert.deepEqual(
+      collapsed.map((entry) => entry.offset),
+      [0, 20]
+    );
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Batch redaction tests: the XML tree and ZIP container round-trip
+ * unchanged, and redacting a .docx package replaces values across runs,
+ * as tracked revisions when asked, and leaves allow-listed values alone
+ */
+
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { describe, it } from 'node:test';
+import { DocxRedactionOptions, redactDocx } from '../cli/docx';
+import { element, findAll, parseXml, serializeXml, textContent } from '../cli/xml';
+import { readZip, writeZip, ZipEntries } from '../cli/zip';
+import { detect } from '../src/detection';
+import { DETECTORS } from '../src/detectors';
+import { isInRegions } from '../src/locales';
+
+const US_DETECTORS = DETECTORS.filter((detector) => !detector.optional && isInRegions(detector, ['us']));
+
+const OPTIONS: DocxRedactionOptions = {
+  detectors: US_DETECTORS,
+  styles: { '*': 'label' },
+  pseudonyms: { mode: 'number', key: '' },
+  threshold: 0.5,
+  allowList: [],
+  banner: null,
+  trackChanges: false,
+  author: 'Tester',
+};
+
+/**
+ * A package holding only a body with the given paragraphs' runs
+ */
+function packageWith(paragraphs: string[][]): ZipEntries {
+  const body = paragraphs
+    .map((runs) => `<w:p>${runs.map((text) => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`).join('')}</w:p>`)
+    .join('');
+  const document =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+  return new Map([['word/document.xml', Buffer.from(document)]]);
+}
+
+/**
+ * The text of each body paragraph, leaving out deleted text
+ */
+function paragraphTexts(entries: ZipEntries): string[] {
+  const root = parseXml(entries.get('word/document.xml')!.toString('utf8'));
+  return findAll(root, 'w:p').map((paragraph) => findAll(paragraph, 'w:t').map(textContent).join(''));
+}
+
+describe('xml', () => {
+  it('serializes a parsed part back byte for byte', () => {
+    const source =
+      '<?xml version="1.0"?>\n<!-- note --><w:p a="1 > 0" b=\'x\'><w:t xml:space="preserve"> A &amp; B </w:t>' +
+      '<w:br/><![CDATA[<raw>]]></w:p>';
+    assert.equal(serializeXml(parseXml(source)), source);
+  });
+
+  it('escapes attribute values of created elements', () => {
+    assert.equal(
+      serializeXml(element('w:t', { 'w:val': 'a "b" & <c>' })),
+      '<w:t w:val="a &quot;b&quot; &amp; &lt;c&gt;"/>'
+    );
+  });
+
+  it('reads text content unescaped', () => {
+    const [text] = findAll(parseXml('<w:t>Smith &amp; Jones</w:t>'), 'w:t');
+    assert.equal(textContent(text), 'Smith & Jones');
+  });
+
+  it('rejects unbalanced markup', () => {
+    assert.throws(() => parseXml('<w:p><w:r></w:p>'), /Unclosed element <w:p>/);
+    assert.throws(() => parseXml('</w:p>'), /Unexpected closing tag/);
+  });
+});
+
+describe('zip', () => {
+  it('reads back what it wrote, in order', () => {
+    const entries: ZipEntries = new Map([
+      ['[Content_Types].xml', Buffer.from('<Types/>')],
+      ['word/document.xml', Buffer.from('<w:document>'.repeat(500))],
+      ['word/media/empty.bin', Buffer.alloc(0)],
+      ['word/naïve.xml', Buffer.from('é')],
+    ]);
+    const read = readZip(writeZip(entries));
+    assert.deepEqual([...read.keys()], [...entries.keys()]);
+    for (const [path, data] of entries) assert.deepEqual(read.get(path), data, path);
+  });
+
+  it('rejects data that is not an archive', () => {
+    assert.throws(() => readZip(Buffer.from('not a zip file')));
+  });
+});
+
+describe('redactDocx', () => {
+  it('replaces values split across runs and counts them', async () => {
+    const entries = packageWith([['Mail jane', '@example.com today'], ['SSN 123-45-6789']]);
+    const result = await redactDocx(entries, OPTIONS);
+    assert.deepEqual(paragraphTexts(entries), ['Mail [EMAIL] today', 'SSN [SSN]']);
+    assert.equal(result.totalRedacted, 2);
+    assert.deepEqual(result.locationCounts, { body: 2 });
+  });
+
+  it('records redactions as tracked revisions when asked', async () => {
+    const entries = packageWith([['SSN 123-45-6789']]);
+    await redactDocx(entries, { ...OPTIONS, trackChanges: true });
+    const root = parseXml(entries.get('word/document.xml')!.toString('utf8'));
+    const [deleted] = findAll(root, 'w:del');
+    const [inserted] = findAll(root, 'w:ins');
+    assert.equal(findAll(deleted, 'w:delText').map(textContent).join(''), '123-45-6789');
+    assert.equal(findAll(inserted, 'w:t').map(textContent).join(''), '[SSN]');
+    assert.match(serializeXml(deleted), /w:author="Tester"/);
+  });
+
+  it('leaves allow-listed values and reports them as skipped', async () => {
+    const entries = packageWith([['Mail jane@ourcompany.com or joe@other.com']]);
+    const result = await redactDocx(entries, {
+      ...OPTIONS,
+      allowList: [{ id: 'allow-1', kind: 'domain', value: 'ourcompany.com' }],
+    });
+    assert.deepEqual(paragraphTexts(entries), ['Mail jane@ourcompany.com or [EMAIL]']);
+    assert.equal(result.skipped, 1);
+  });
+
+  it('leaves nothing for the detectors to find in the sample document', async () => {
+    const entries = readZip(await readFile('Document-To-Be-Redacted.docx'));
+    const result = await redactDocx(entries, OPTIONS);
+    assert.ok(result.totalRedacted > 0);
+
+    const redacted = readZip(writeZip(entries));
+    const leftover = paragraphTexts(redacted).flatMap((text) => detect(text, US_DETECTORS, OPTIONS.threshold));
+    assert.deepEqual(leftover, []);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Stand-ins for the host storage the add-in reads outside Word: the
+ * document settings of Office.js and the browser's local storage. Each
+ * returns the map behind it, so a test can see what was saved.
+ */
+
+/**
+ * Installs an Office global whose document settings live in a map
+ */
+export function stubDocumentSettings(initial: Record<string, unknown> = {}): Map<string, unknown> {
+  const settings = new Map(Object.entries(initial));
+  Object.assign(globalThis, {
+    Office: {
+      AsyncResultStatus: { Succeeded: 'succeeded', Failed: 'failed' },
+      context: {
+        document: {
+          settings: {
+            get: (key: string) => settings.get(key) ?? null,
+            set: (key: string, value: unknown) => settings.set(key, value),
+            remove: (key: string) => settings.delete(key),
+            saveAsync: (callback: (result: { status: string }) => void) => callback({ status: 'succeeded' }),
+          },
+        },
+        requirements: { isSetSupported: () => false },
+      },
+    },
+  });
+  return settings;
+}
+
+/**
+ * Installs a localStorage global backed by a map
+ */
+export function stubLocalStorage(initial: Record<string, string> = {}): Map<string, string> {
+  const items = new Map(Object.entries(initial));
+  Object.assign(globalThis, {
+    localStorage: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    },
+  });
+  return items;
+}
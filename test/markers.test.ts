@@ -0,0 +1,85 @@
+/**
+ * Marker tests: the text each style puts in place of a value, partial
+ * masks, report previews and picking a detector's style
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  buildMarker,
+  DEFAULT_STYLE_KEY,
+  getMarkerFormat,
+  MARKER_STRATEGIES,
+  MarkerStyle,
+  maskedPreview,
+  partialMask,
+  resolveMarkerStyle,
+} from '../src/markers';
+
+describe('buildMarker', () => {
+  const cases: [style: MarkerStyle, expected: string][] = [
+    ['redacted', '[REDACTED]'],
+    ['label', '[EMAIL]'],
+    ['token', '[EMAIL]'],
+    ['pseudonym', '[EMAIL]'],
+    ['blackBox', 'XXXXXXXXXXXXXXXX'],
+    ['mask', '████████'],
+    ['partial', '███@example.com'],
+  ];
+  for (const [style, expected] of cases) {
+    it(style, () => assert.equal(buildMarker(style, 'jane@example.com', 'EMAIL'), expected));
+  }
+
+  it('hides the length of the value only in fixed masks', () => {
+    assert.equal(buildMarker('blackBox', '123', 'SSN').length, 3);
+    assert.equal(buildMarker('mask', '123', 'SSN'), buildMarker('mask', '123-45-6789', 'SSN'));
+  });
+});
+
+describe('partialMask', () => {
+  it('keeps the last four letters or digits and the separators', () => {
+    assert.equal(partialMask('(212) 555-4567'), '(███) ███-4567');
+    assert.equal(partialMask('123-45-6789'), '███-██-6789');
+  });
+
+  it('keeps only the domain of an email', () => {
+    assert.equal(partialMask('jane.doe@example.com'), '███@example.com');
+  });
+
+  it('keeps as many characters as asked', () => {
+    assert.equal(partialMask('4111 1111 1111 1234', 2), '████ ████ ████ ██34');
+    assert.equal(partialMask('abc', 0), '███');
+  });
+});
+
+describe('maskedPreview', () => {
+  it('shows at most a third of a value', () => {
+    assert.equal(maskedPreview('123-45-6789'), '███-██-█789');
+    assert.equal(maskedPreview('12345'), '████5');
+    assert.equal(maskedPreview('12'), '██');
+  });
+
+  it('shows no more than four characters of long values', () => {
+    assert.equal(maskedPreview('4111 1111 1111 1234'), '████ ████ ████ 1234');
+  });
+});
+
+describe('marker styles', () => {
+  it('paints black boxes black, shades labels and leaves masks unformatted', () => {
+    assert.deepEqual(getMarkerFormat('blackBox'), { highlightColor: '#000000', fontColor: '#000000' });
+    assert.deepEqual(getMarkerFormat('label'), { highlightColor: '#D9D9D9' });
+    assert.deepEqual(getMarkerFormat('mask'), {});
+  });
+
+  it('offers every style once', () => {
+    const ids = MARKER_STRATEGIES.map((strategy) => strategy.id);
+    assert.equal(new Set(ids).size, ids.length);
+  });
+
+  it("uses a detector's own style, then the default, then [REDACTED]", () => {
+    const styles: Record<string, MarkerStyle> = { email: 'partial', [DEFAULT_STYLE_KEY]: 'mask' };
+    assert.equal(resolveMarkerStyle(styles, 'email'), 'partial');
+    assert.equal(resolveMarkerStyle(styles, 'ssn'), 'mask');
+    assert.equal(resolveMarkerStyle({}, 'ssn'), 'redacted');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Phone number tests: E.164 parsing of international numbers, national
+ * number lengths, and the international phone detector built on them
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detect } from '../src/detection';
+import { DETECTORS } from '../src/detectors';
+import { isValidNationalNumber, parseInternationalNumber } from '../src/phoneNumbers';
+
+describe('parseInternationalNumber', () => {
+  const parsed: [value: string, dialingCode: string, nationalNumber: string][] = [
+    ['+44 20 7946 0958', '44', '2079460958'],
+    ['+44 (0)20 7946 0958', '44', '2079460958'],
+    ['0049 30 1234567', '49', '301234567'],
+    ['+972-50-123-4567', '972', '501234567'],
+    ['+91 98765 43210', '91', '9876543210'],
+    ['+1 (212) 555-1234', '1', '2125551234'],
+  ];
+  for (const [value, dialingCode, nationalNumber] of parsed) {
+    it(value, () => {
+      assert.deepEqual(parseInternationalNumber(value), { dialingCode, nationalNumber, known: true });
+    });
+  }
+
+  it('keeps numbers with other dialing codes, marked as unknown', () => {
+    assert.deepEqual(parseInternationalNumber('+7 495 123 4567'), {
+      dialingCode: '',
+      nationalNumber: '74951234567',
+      known: false,
+    });
+  });
+
+  describe('rejects', () => {
+    const rejected: [value: string, reason: string][] = [
+      ['020 7946 0958', 'without "+" or "00"'],
+      ['+44 20 7946', 'too short for its country'],
+      ['+1 212 555 12345', 'too long for its country'],
+      ['+123 4567', 'fewer than 8 digits'],
+      ['+999 1234 5678 9012 34', 'more than 15 digits'],
+    ];
+    for (const [value, reason] of rejected) {
+      it(`${value} (${reason})`, () => assert.equal(parseInternationalNumber(value), null));
+    }
+  });
+});
+
+describe('isValidNationalNumber', () => {
+  it('accepts numbers of the region length, with or without the trunk prefix', () => {
+    assert.equal(isValidNationalNumber('020 7946 0958', 'gb'), true);
+    assert.equal(isValidNationalNumber('030 12345678', 'de'), true);
+    assert.equal(isValidNationalNumber('050-123-4567', 'il'), true);
+    assert.equal(isValidNationalNumber('612 345 678', 'es'), true);
+  });
+
+  it('rejects numbers of another length', () => {
+    assert.equal(isValidNationalNumber('020 7946 09', 'gb'), false);
+    assert.equal(isValidNationalNumber('612 345 6789', 'es'), false);
+    assert.equal(isValidNationalNumber('212-555-123', 'us'), false);
+  });
+});
+
+describe('international phone detector', () => {
+  const detectors = DETECTORS.filter((detector) => detector.id === 'phoneInternational');
+  const found = (text: string) => detect(text, detectors).map((match) => match.text);
+
+  it('finds numbers written with their dialing code', () => {
+    assert.deepEqual(found('Call +44 (0)20 7946 0958 or 0049 30 1234567'), ['+44 (0)20 7946 0958', '0049 30 1234567']);
+  });
+
+  it('is more confident about countries with known lengths', () => {
+    const [known] = detect('+44 20 7946 0958', detectors);
+    const [unknown] = detect('+7 495 123 4567', detectors);
+    assert.ok(known.confidence > unknown.confidence);
+  });
+
+  it('passes over numbers of the wrong length for their country', () => {
+    assert.deepEqual(found('Ref +44 20 7946'), []);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Policy profile tests: exported files read back as the same profile,
+ * missing sections take their defaults, and each invalid field is named
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_BANNER_OPTIONS } from '../src/banner';
+import { BUILT_IN_PROFILES, exportProfile, parseProfile } from '../src/profiles';
+import { DEFAULT_TRACKING_OPTIONS } from '../src/tracking';
+
+/**
+ * A profile file with some fields changed from a minimal valid one
+ */
+function profileFile(fields: Record<string, unknown> = {}): string {
+  return JSON.stringify({ format: 'redaction-policy', version: 1, name: 'Claims', detectors: ['email'], ...fields });
+}
+
+describe('parseProfile', () => {
+  for (const profile of BUILT_IN_PROFILES) {
+    it(`reads back the exported ${profile.name} profile`, () => {
+      const { id: _id, ...expected } = profile;
+      const { id, ...parsed } = parseProfile(exportProfile(profile));
+      assert.deepEqual(parsed, expected);
+      assert.equal(id, `imported-${profile.name.toLowerCase()}`);
+    });
+  }
+
+  it('gives missing sections their defaults', () => {
+    assert.deepEqual(parseProfile(profileFile()), {
+      id: 'imported-claims',
+      name: 'Claims',
+      description: '',
+      detectors: ['email'],
+      markerStyles: {},
+      banner: DEFAULT_BANNER_OPTIONS,
+      tracking: DEFAULT_TRACKING_OPTIONS,
+    });
+  });
+
+  it('fills in the fields a section leaves out', () => {
+    const profile = parseProfile(profileFile({ banner: { level: 'restricted' }, tracking: { redactions: 'tracked' } }));
+    assert.deepEqual(profile.banner, { ...DEFAULT_BANNER_OPTIONS, level: 'restricted' });
+    assert.deepEqual(profile.tracking, { ...DEFAULT_TRACKING_OPTIONS, redactions: 'tracked' });
+  });
+
+  it('trims the name and derives the id from it', () => {
+    const profile = parseProfile(profileFile({ name: '  Claims & Billing ' }));
+    assert.equal(profile.name, 'Claims & Billing');
+    assert.equal(profile.id, 'imported-claims-billing');
+  });
+
+  describe('rejects', () => {
+    const rejected: [description: string, contents: string, message: RegExp][] = [
+      ['text that is not JSON', 'not json', /not a policy profile/],
+      [
+        'another kind of file',
+        JSON.stringify({ format: 'redaction-recovery-key', version: 1 }),
+        /not a policy profile/,
+      ],
+      ['another version', profileFile({ version: 2 }), /version 2 is not supported/],
+      ['a missing name', profileFile({ name: ' ' }), /has no name/],
+      ['a long name', profileFile({ name: 'x'.repeat(61) }), /longer than 60/],
+      ['a description that is not text', profileFile({ description: 1 }), /"description" must be text/],
+      ['an empty detector list', profileFile({ detectors: [] }), /at least one detector/],
+      ['an unknown detector', profileFile({ detectors: ['email', 'shoeSize'] }), /Unknown detector "shoeSize"/],
+      ['an unknown marker style', profileFile({ markerStyles: { email: 'glitter' } }), /"glitter" for "email"/],
+      ['an unknown classification', profileFile({ banner: { level: 'secret' } }), /classification level "secret"/],
+      ['a colour name', profileFile({ banner: { color: 'red' } }), /"banner.color"/],
+      ['an unknown placement', profileFile({ banner: { placement: 'margin' } }), /placement "margin"/],
+      [
+        'a tracking mode for the wrong part',
+        profileFile({ tracking: { header: 'trackedThenAccept' } }),
+        /banner tracking/,
+      ],
+      ['a non-boolean restore flag', profileFile({ tracking: { restoreOriginal: 'yes' } }), /restoreOriginal/],
+    ];
+    for (const [description, contents, message] of rejected) {
+      it(description, () => assert.throws(() => parseProfile(contents), message));
+    }
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Pseudonym tests: which spellings count as the same value, how each
+ * mode names values, and the shape of the fake values
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  assignPseudonyms,
+  normalizeValue,
+  PseudonymMode,
+  pseudonymKey,
+  PseudonymRequest,
+  rememberFakeValues,
+} from '../src/pseudonyms';
+import { isValidCardNumber, isValidSSN } from '../src/validators';
+import { stubDocumentSettings } from './hostStubs';
+
+/**
+ * The pseudonym of each value, in the order given
+ */
+async function pseudonyms(mode: PseudonymMode, requests: PseudonymRequest[], key = ''): Promise<string[]> {
+  const entries = await assignPseudonyms(requests, { mode, key });
+  return requests.map((request) => entries.get(pseudonymKey(request.detector, request.tag, request.value))!.pseudonym);
+}
+
+const email = (value: string): PseudonymRequest => ({ detector: 'email', tag: 'EMAIL', value });
+
+describe('normalizeValue', () => {
+  it('compares phone numbers by digits, without a US country code', () => {
+    assert.equal(normalizeValue('phone', '+1 (212) 555-1234'), '2125551234');
+    assert.equal(normalizeValue('phone', '212.555.1234'), '2125551234');
+  });
+
+  it('compares emails without case', () => {
+    assert.equal(normalizeValue('email', ' Jane.Doe@Example.com'), 'jane.doe@example.com');
+  });
+
+  it('compares SSNs, cards and IBANs without separators', () => {
+    assert.equal(normalizeValue('ssn', '123-45-6789'), '123456789');
+    assert.equal(normalizeValue('creditCard', '4111 1111.1111-1111'), '4111111111111111');
+    assert.equal(normalizeValue('iban', 'gb82 west 1234'), 'GB82WEST1234');
+  });
+
+  it('collapses whitespace in other values', () => {
+    assert.equal(normalizeValue('person', '  Jane   Roe '), 'Jane Roe');
+  });
+
+  it('lets detectors sharing a tag share a key', () => {
+    assert.equal(pseudonymKey('ssn', 'SSN', '123-45-6789'), pseudonymKey('ssnMasked', 'SSN', '123456789'));
+    assert.notEqual(pseudonymKey('ssn', 'SSN', '123-45-6789'), pseudonymKey('ssn', 'SSN', '123-45-6780'));
+  });
+});
+
+describe('assignPseudonyms', () => {
+  it('numbers distinct values per tag and reuses them for every spelling', async () => {
+    const phone: PseudonymRequest = { detector: 'phone', tag: 'PHONE', value: '212-555-1234' };
+    assert.deepEqual(await pseudonyms('number', [email('a@b.com'), phone, email('c@d.com'), email('A@B.com')]), [
+      '[EMAIL-1]',
+      '[PHONE-1]',
+      '[EMAIL-2]',
+      '[EMAIL-1]',
+    ]);
+  });
+
+  it('records every spelling an entry replaced', async () => {
+    const entries = await assignPseudonyms([email('a@b.com'), email('A@B.com'), email('a@b.com')], {
+      mode: 'number',
+      key: '',
+    });
+    assert.deepEqual([...entries.values()][0].values, ['a@b.com', 'A@B.com']);
+  });
+
+  it('derives keyed-hash pseudonyms from the key', async () => {
+    const [first] = await pseudonyms('hmac', [email('a@b.com')], 'secret');
+    const [, again] = await pseudonyms('hmac', [email('c@d.com'), email('a@b.com')], 'secret');
+    const [otherKey] = await pseudonyms('hmac', [email('a@b.com')], 'other');
+    assert.match(first, /^\[EMAIL-[0-9a-f]{8}\]$/);
+    assert.equal(again, first);
+    assert.notEqual(otherKey, first);
+  });
+
+  it('needs a key for keyed-hash pseudonyms', async () => {
+    await assert.rejects(assignPseudonyms([email('a@b.com')], { mode: 'hmac', key: '' }), /Enter a key/);
+  });
+});
+
+describe('fake values', () => {
+  const fake = async (detector: string, value: string): Promise<string> => {
+    const [pseudonym] = await pseudonyms('fake', [{ detector, tag: 'TAG', value }]);
+    return pseudonym;
+  };
+
+  it('uses example.com addresses', async () => {
+    assert.equal(await fake('email', 'jane@corp.com'), 'person1@example.com');
+  });
+
+  it('keeps the layout of phone numbers, in the range reserved for fiction', async () => {
+    assert.equal(await fake('phone', '(212) 555-1234'), '(200) 555-0100');
+    assert.equal(await fake('phone', '+1 212 555 1234'), '+1 200 555 0100');
+  });
+
+  it('makes SSNs that are never issued and cards that pass the Luhn check', async () => {
+    const ssn = await fake('ssn', '123-45-6789');
+    assert.match(ssn, /^9\d\d-\d\d-\d{4}$/);
+    assert.equal(isValidSSN(ssn), false);
+    const card = await fake('creditCard', '4111 1111 1111 1111');
+    assert.match(card, /^4000 \d{4} \d{4} \d{4}$/);
+    assert.equal(isValidCardNumber(card), true);
+  });
+
+  it('uses documentation addresses and keeps date layouts', async () => {
+    assert.equal(await fake('ipv4', '10.0.0.1'), '192.0.2.1');
+    assert.equal(await fake('ipv6', 'fe80::1'), '2001:db8::1');
+    assert.match(await fake('dateOfBirth', '1990-01-31'), /^\d{4}-\d\d-\d\d$/);
+    assert.match(await fake('dateOfBirth', '01/31/1990'), /^\d\d\/\d\d\/\d{4}$/);
+    assert.match(await fake('dateOfBirth', 'January 31, 1990'), /^[A-Z][a-z]+ \d{1,2}, \d{4}$/);
+  });
+
+  it('falls back to a placeholder where there is no fake', async () => {
+    assert.equal(await fake('person', 'Jane Roe'), '[TAG-1]');
+  });
+
+  it('are remembered in the document, without placeholders or repeats', async () => {
+    const settings = stubDocumentSettings({ 'redaction.fakeValues': ['person1@example.com'] });
+    await rememberFakeValues([
+      { pseudonym: 'person1@example.com', tag: 'EMAIL', values: ['a@b.com'] },
+      { pseudonym: 'person2@example.com', tag: 'EMAIL', values: ['c@d.com'] },
+      { pseudonym: '[PERSON-1]', tag: 'PERSON', values: ['Jane Roe'] },
+    ]);
+    assert.deepEqual(settings.get('redaction.fakeValues'), ['person1@example.com', 'person2@example.com']);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Recovery key tests: encrypting and decrypting token mappings
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decryptRecoveryKey, encryptRecoveryKey, RecoveryKey } from '../src/recovery';
+
+describe('recovery keys', () => {
+  it('decrypts what it encrypted', async () => {
+    const key: RecoveryKey = {
+      createdAt: '2026-01-01T00:00:00.000Z',
+      entries: [{ token: '[EMAIL-0001]', original: 'jane@example.com', detector: 'email' }],
+    };
+    assert.deepEqual(await decryptRecoveryKey(await encryptRecoveryKey(key, 'passphrase'), 'passphrase'), key);
+  });
+
+  it('encrypts keys far larger than one call can spread', async () => {
+    const entries = Array.from({ length: 20000 }, (_, index) => ({
+      token: `[SSN-${index}]`,
+      original: `123-45-${String(index).padStart(4, '0')}`,
+      detector: 'ssn',
+    }));
+    const key: RecoveryKey = { createdAt: '2026-01-01T00:00:00.000Z', entries };
+    const decrypted = await decryptRecoveryKey(await encryptRecoveryKey(key, 'passphrase'), 'passphrase');
+    assert.equal(decrypted.entries.length, entries.length);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const contents = await encryptRecoveryKey({ createdAt: '', entries: [] }, 'passphrase');
+    await assert.rejects(decryptRecoveryKey(contents, 'other'), /Wrong passphrase/);
+  });
+
+  describe('malformed files', () => {
+    const edit = async (change: (file: any) => void): Promise<string> => {
+      const file = JSON.parse(await encryptRecoveryKey({ createdAt: '', entries: [] }, 'passphrase'));
+      change(file);
+      return JSON.stringify(file);
+    };
+
+    it('rejects text that is not a recovery key', async () => {
+      await assert.rejects(decryptRecoveryKey('not json', 'passphrase'), /not a recovery key/);
+      await assert.rejects(decryptRecoveryKey('null', 'passphrase'), /not a recovery key/);
+      await assert.rejects(decryptRecoveryKey('{"format": "other"}', 'passphrase'), /not a recovery key/);
+    });
+
+    it('rejects another key derivation or cipher', async () => {
+      await assert.rejects(
+        decryptRecoveryKey(await edit((file) => (file.kdf.hash = 'SHA-1')), 'passphrase'),
+        /cannot read/
+      );
+      await assert.rejects(decryptRecoveryKey(await edit((file) => delete file.cipher), 'passphrase'), /cannot read/);
+    });
+
+    it('rejects iteration counts out of range', async () => {
+      for (const iterations of [1, 1e9, '310000', 310000.5]) {
+        await assert.rejects(
+          decryptRecoveryKey(await edit((file) => (file.kdf.iterations = iterations)), 'passphrase'),
+          /invalid key derivation/
+        );
+      }
+    });
+
+    it('rejects missing or undecodable salt, iv and ciphertext', async () => {
+      await assert.rejects(decryptRecoveryKey(await edit((file) => delete file.kdf.salt), 'passphrase'), /damaged/);
+      await assert.rejects(decryptRecoveryKey(await edit((file) => (file.cipher.iv = 42)), 'passphrase'), /damaged/);
+      await assert.rejects(
+        decryptRecoveryKey(await edit((file) => (file.ciphertext = '%%%')), 'passphrase'),
+        /damaged/
+      );
+    });
+  });
+});
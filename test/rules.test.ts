@@ -0,0 +1,121 @@
+/**
+ * Custom rule tests: validation, the detectors rules become, and moving
+ * rules an earlier version kept in the document into local storage
+ */
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { detect } from '../src/detection';
+import { CustomRule, loadRules, removeDocumentRules, ruleToDetector, saveRules, validateRule } from '../src/rules';
+import { stubDocumentSettings, stubLocalStorage } from './hostStubs';
+
+const KEY = 'redaction.customRules';
+
+function rule(overrides: Partial<CustomRule> = {}): CustomRule {
+  return {
+    id: 'custom-1',
+    kind: 'term',
+    label: 'Client',
+    value: 'Acme',
+    caseSensitive: false,
+    wholeWord: true,
+    ...overrides,
+  };
+}
+
+/**
+ * The texts a rule finds
+ */
+function found(text: string, custom: CustomRule): string[] {
+  return detect(text, [ruleToDetector(custom)]).map((match) => match.text);
+}
+
+describe('validateRule', () => {
+  it('accepts a term and a regular expression', () => {
+    assert.equal(validateRule(rule()), null);
+    assert.equal(validateRule(rule({ kind: 'regex', value: 'MAT-\\d{4}' })), null);
+  });
+
+  it('asks for a label and a value', () => {
+    assert.equal(validateRule(rule({ label: ' ' })), 'Give the rule a label.');
+    assert.equal(validateRule(rule({ value: '' })), 'Enter a term to redact.');
+    assert.equal(validateRule(rule({ kind: 'regex', value: '' })), 'Enter a regular expression.');
+  });
+
+  it('rejects invalid expressions and ones that match empty text', () => {
+    assert.match(validateRule(rule({ kind: 'regex', value: '(' })) ?? '', /^Invalid regular expression/);
+    assert.equal(validateRule(rule({ kind: 'regex', value: '\\d*' })), 'The expression must not match empty text.');
+  });
+
+  it('treats a term as literal text', () => {
+    assert.equal(validateRule(rule({ value: '(' })), null);
+  });
+});
+
+describe('ruleToDetector', () => {
+  it('names the detector after the rule, not its term', () => {
+    const detector = ruleToDetector(rule({ label: ' Client name ' }));
+    assert.equal(detector.tag, 'CLIENT_NAME');
+    assert.equal(detector.description, 'Custom term: Client name');
+    assert.equal(detector.confidence, 1);
+  });
+
+  it('falls back to a generic tag when the label has no letters or digits', () => {
+    assert.equal(ruleToDetector(rule({ label: '***' })).tag, 'CUSTOM');
+  });
+
+  it('matches whole words only, including terms ending in punctuation', () => {
+    assert.deepEqual(found('Acme and Acmeco', rule()), ['Acme']);
+    assert.deepEqual(found('Matter #42, not #421', rule({ value: '#42' })), ['#42']);
+    assert.deepEqual(found('Acmeco', rule({ wholeWord: false })), ['Acme']);
+  });
+
+  it('honours case sensitivity', () => {
+    assert.deepEqual(found('ACME acme', rule()), ['ACME', 'acme']);
+    assert.deepEqual(found('ACME acme', rule({ value: 'acme', caseSensitive: true })), ['acme']);
+  });
+
+  it('runs regular expressions', () => {
+    assert.deepEqual(found('See MAT-2024 and MAT-99', rule({ kind: 'regex', value: 'MAT-\\d{4}' })), ['MAT-2024']);
+  });
+});
+
+describe('rules an earlier version kept in the document', () => {
+  let settings: Map<string, unknown>;
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    settings = stubDocumentSettings({ [KEY]: [rule({ id: 'old' }), rule({ id: 'both', value: 'from document' })] });
+    storage = stubLocalStorage({ [KEY]: JSON.stringify([rule({ id: 'both', value: 'stored' })]) });
+  });
+
+  it('are loaded with the stored rules, which win on the same id', () => {
+    assert.deepEqual(
+      loadRules().map((entry) => `${entry.id}:${entry.value}`),
+      ['both:stored', 'old:Acme']
+    );
+  });
+
+  it('are removed from the document when the rules are saved', async () => {
+    await saveRules([rule({ id: 'new' })]);
+    assert.equal(settings.has(KEY), false);
+    assert.deepEqual(JSON.parse(storage.get(KEY) ?? '[]'), [rule({ id: 'new' })]);
+  });
+
+  it('are kept for the user when moved out of the document', async () => {
+    await removeDocumentRules();
+    assert.equal(settings.has(KEY), false);
+    assert.deepEqual(
+      (JSON.parse(storage.get(KEY) ?? '[]') as CustomRule[]).map((entry) => entry.id),
+      ['both', 'old']
+    );
+  });
+
+  it('leave unreadable storage out', () => {
+    storage.set(KEY, '{not json');
+    assert.deepEqual(
+      loadRules().map((entry) => entry.id),
+      ['old', 'both']
+    );
+  });
+});
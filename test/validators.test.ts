@@ -0,0 +1,87 @@
+/**
+ * Validator tests: values each checksum or structure rule must accept,
+ * and near misses it must reject
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  hasDigit,
+  isValidAadhaar,
+  isValidCardNumber,
+  isValidDateOfBirth,
+  isValidIBAN,
+  isValidIPv6,
+  isValidNANP,
+  isValidNINO,
+  isValidSIN,
+  isValidSpanishId,
+  isValidSSN,
+  isValidTeudatZehut,
+} from '../src/validators';
+
+const VALIDATORS: [name: string, validate: (value: string) => boolean, valid: string[], invalid: string[]][] = [
+  [
+    'isValidSSN',
+    isValidSSN,
+    ['123-45-6789', '123 45 6789', '123456789'],
+    ['666-12-3456', '900-12-3456', '999-99-9999', '000-12-3456', '123-00-6789', '123-45-0000', '12345678'],
+  ],
+  [
+    'isValidNANP',
+    isValidNANP,
+    ['212-555-1234', '(555) 234-5678', '1 212 555 1234'],
+    ['123-456-7890', '212-111-1234', '911-555-1234', '292-555-1234', '212-055-1234', '21255512'],
+  ],
+  [
+    'isValidCardNumber (Luhn)',
+    isValidCardNumber,
+    ['4111 1111 1111 1111', '4111-1111-1111-1111', '378282246310005'],
+    ['4111 1111 1111 1112', '4111', '41111111111111111111'],
+  ],
+  [
+    'isValidIBAN (mod-97)',
+    isValidIBAN,
+    ['GB82 WEST 1234 5698 7654 32', 'DE89370400440532013000'],
+    ['GB82 WEST 1234 5698 7654 33', 'DE89370400440532013001'],
+  ],
+  [
+    'isValidIPv6',
+    isValidIPv6,
+    ['2001:db8::1', '2001:0db8:0000:0000:0000:ff00:0042:8329', '::1'],
+    ['1::2::3', '2001:db8:1:2:3:4:5', '12345::1'],
+  ],
+  [
+    'isValidDateOfBirth',
+    isValidDateOfBirth,
+    ['01/31/1990', '1990-01-31', 'January 31, 1990', '31 January 1990'],
+    ['02/30/1990', '13/01/1990', '01/31/2999'],
+  ],
+  ['isValidNINO', isValidNINO, ['AB123456C', 'AB 12 34 56 C'], ['QQ123456C', 'GB123456A', 'AB123456E']],
+  ['isValidSIN (Luhn)', isValidSIN, ['130 692 544', '193 456 787'], ['130 692 545', '046 454 286', '846 454 286']],
+  [
+    'isValidTeudatZehut',
+    isValidTeudatZehut,
+    ['123456782', '000000018', '0000018', '12345674'],
+    ['123456789', '18', '000000000'],
+  ],
+  [
+    'isValidAadhaar (Verhoeff)',
+    isValidAadhaar,
+    ['2341 2341 2346'],
+    ['2341 2341 2345', '1341 2341 2346', '2341 2341 234'],
+  ],
+  ['isValidSpanishId', isValidSpanishId, ['12345678Z', 'X1234567L'], ['12345678A', 'X1234567A']],
+  ['hasDigit', hasDigit, ['A1234567', '9'], ['number', '']],
+];
+
+for (const [name, validate, valid, invalid] of VALIDATORS) {
+  describe(name, () => {
+    for (const value of valid) {
+      it(`accepts ${JSON.stringify(value)}`, () => assert.equal(validate(value), true));
+    }
+    for (const value of invalid) {
+      it(`rejects ${JSON.stringify(value)}`, () => assert.equal(validate(value), false));
+    }
+  });
+}
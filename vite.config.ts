@@ -30,11 +30,19 @@ export default defineConfig({
     https: getHttpsConfig(),
     cors: true,
   },
+  // The entity model's worker loads the ONNX runtime with dynamic imports
+  worker: {
+    format: 'es',
+  },
+  optimizeDeps: {
+    exclude: ['@huggingface/transformers'],
+  },
   build: {
     outDir: 'dist',
     rollupOptions: {
       input: {
         main: 'index.html',
+        notification: 'notification.html',
       },
     },
   },